@@ -2,73 +2,243 @@ import { ParseResult } from '@babel/parser';
 import _traverse, { NodePath } from '@babel/traverse';
 import {
 	ArrowFunctionExpression,
-	ExpressionStatement,
+	ClassMethod,
+	ClassPrivateMethod,
 	File,
 	FunctionDeclaration,
 	FunctionExpression,
-	isCallExpression,
+	FunctionParameter,
+	Identifier,
+	isArrowFunctionExpression,
+	isClassDeclaration,
+	isClassMethod,
+	isClassPrivateMethod,
+	isFunctionDeclaration,
+	isFunctionExpression,
 	isIdentifier,
+	isImportDeclaration,
+	isObjectExpression,
+	isObjectMethod,
+	isObjectProperty,
+	isStringLiteral,
+	isValidIdentifier,
+	isVariableDeclaration,
+	Node,
+	ObjectExpression,
+	ObjectMethod,
+	ObjectProperty,
+	StringLiteral,
 	VariableDeclarator,
 } from '@babel/types';
-import { collectDependencyChain, collectLocalDependencies } from './utils/collect-local-dependencies';
-import { hasInlineDecorator, hasPureDecorator } from './utils/decorator-utils';
+import { InlineContext } from './context';
+import {
+	collectDependencyChain,
+	collectLocalDependencies,
+	findDependencyCycles,
+	getInlinedLocalDeps,
+	removeFunctionDependencies,
+} from './utils/collect-local-dependencies';
+import {
+	FunctionAnnotations,
+	getFunctionAnnotations,
+	hasInlineDecorator,
+	hasNoinlineDecorator,
+	hasPureDecorator,
+} from './utils/decorator-utils';
 import { getFunctionParams } from './utils/get-function-params';
 import { getBabelDefaultExport } from './utils/babel-exports';
+import { AutoInlineOptions, isAutoInlinable } from './utils/is-auto-inlinable';
 
 const traverse = getBabelDefaultExport(_traverse);
 
+/**
+ * A function that can be inlined: a plain function, a method called as `object.method()`,
+ * or an instance method or getter of a class.
+ */
+export type InlinableFunctionNode =
+	| FunctionDeclaration
+	| ArrowFunctionExpression
+	| FunctionExpression
+	| ObjectMethod
+	| ClassMethod
+	| ClassPrivateMethod;
+
 export type InlinableFunction = {
+	/** Module-qualified identity, see `getFunctionKey`. */
+	key: string;
+	/** The name of the function, `object.method` for methods, or `Class.prototype.method`. */
 	name: string;
-	params: string[];
-	func: FunctionDeclaration | ArrowFunctionExpression | FunctionExpression;
+	filePath: string;
+	params: FunctionParameter[];
+	func: InlinableFunctionNode;
 	path: NodePath<
-		FunctionDeclaration | ArrowFunctionExpression | FunctionExpression | VariableDeclarator
+		| FunctionDeclaration
+		| ArrowFunctionExpression
+		| FunctionExpression
+		| VariableDeclarator
+		| ObjectMethod
+		| ObjectProperty
+		| ClassMethod
+		| ClassPrivateMethod
 	>;
 };
 
-export const allFunctions = new Map<string, InlinableFunction>();
-export const inlinableFunctions = new Map<string, InlinableFunction>();
-export const inlinableFunctionCalls = new Map<string, InlinableFunction>();
-export const pureFunctions = new Set<string>();
+/**
+ * An import binding: the module it comes from and the name it is exported under there, or
+ * `*` for a namespace import.
+ */
+export type ModuleImport = { source: string; imported: string };
+
+/**
+ * What a module exports. Each named export points at a local binding, or at a binding of
+ * another module when it is re-exported with `export { name } from`.
+ */
+export type ModuleExports = {
+	named: Map<string, { local: string; source?: string }>;
+	star: string[];
+};
+
+export interface Metadata {
+	// All maps and sets of functions are keyed by `getFunctionKey`, so functions with the
+	// same name in different files never overwrite each other.
+	allFunctions: Map<string, InlinableFunction>;
+	inlinableFunctions: Map<string, InlinableFunction>;
+	pureFunctions: Set<string>;
+	// Inlinable functions that the `auto` option selected rather than @inline.
+	autoFunctions: Set<string>;
+	// Arguments of the @inline and @pure annotations of functions that have any.
+	functionAnnotations: Map<string, FunctionAnnotations>;
+	// Import bindings and exports of each file, used to resolve a callee to its definition.
+	moduleImports: Map<string, Map<string, ModuleImport>>;
+	moduleExports: Map<string, ModuleExports>;
+	// Exports added to a module so the code inlined from it can import the module-level names
+	// it uses: local name -> exported name, per file.
+	syntheticExports: Map<string, Map<string, string>>;
+	// Keys of the functions collected from each file, so a changed file can be re-collected
+	// on its own in watch mode.
+	functionsByFile: Map<string, Set<string>>;
+}
+
+export function createMetadata(): Metadata {
+	return {
+		allFunctions: new Map(),
+		inlinableFunctions: new Map(),
+		pureFunctions: new Set(),
+		autoFunctions: new Set(),
+		functionAnnotations: new Map(),
+		moduleImports: new Map(),
+		moduleExports: new Map(),
+		syntheticExports: new Map(),
+		functionsByFile: new Map(),
+	};
+}
+
+/**
+ * Identify a function by the file that defines it and its name in that file.
+ */
+export function getFunctionKey(filePath: string, name: string) {
+	return `${filePath}#${name}`;
+}
+
+function trackFunction(metadata: Metadata, filePath: string, key: string) {
+	const keys = metadata.functionsByFile.get(filePath) ?? new Set<string>();
+	keys.add(key);
+	metadata.functionsByFile.set(filePath, keys);
+}
+
+export function getFunctionsForFile(context: InlineContext, filePath: string): Set<string> {
+	return context.metadata.functionsByFile.get(filePath) ?? new Set<string>();
+}
 
-// Names of functions that have at least one call site annotated with /* @inline */
-// We resolve these to concrete function declarations after all files have been scanned,
-// so that file order does not matter.
-const callsiteInlineCandidates = new Set<string>();
+function getModuleExportName(node: Identifier | StringLiteral) {
+	return isIdentifier(node) ? node.name : node.value;
+}
+
+/**
+ * The name of an object or class member that can be called as `object.name()`.
+ */
+function getMemberName(member: Node) {
+	if (isClassPrivateMethod(member)) return `#${member.key.id.name}`;
+	if (!isObjectMethod(member) && !isObjectProperty(member) && !isClassMethod(member)) return;
+	if (member.computed) return undefined;
+
+	const { key } = member;
+	if (isIdentifier(key)) return key.name;
+	if (isStringLiteral(key) && isValidIdentifier(key.value)) return key.value;
+	return undefined;
+}
+
+export interface CollectMetadataOptions {
+	/** Also select small functions that are not marked @inline, see `isAutoInlinable`. */
+	auto?: AutoInlineOptions;
+}
+
+export function collectMetadata(
+	context: InlineContext,
+	ast: ParseResult<File>,
+	options: CollectMetadataOptions = {}
+) {
+	const { metadata } = context;
+	const { allFunctions, inlinableFunctions, pureFunctions, autoFunctions, functionAnnotations } =
+		metadata;
+	const filePath = ast.program.loc?.filename;
+	if (!filePath) return;
+
+	const imports = new Map<string, ModuleImport>();
+	const exports: ModuleExports = { named: new Map(), star: [] };
+	metadata.moduleImports.set(filePath, imports);
+	metadata.moduleExports.set(filePath, exports);
+
+	function addFunction(
+		name: string,
+		func: InlinableFunction['func'],
+		path: InlinableFunction['path'],
+		// The nodes whose leading comments annotate the function.
+		annotated: Node[],
+		canAutoInline = false
+	) {
+		const hasInline = annotated.some(hasInlineDecorator);
+		const hasPure = annotated.some(hasPureDecorator);
+		const key = getFunctionKey(filePath!, name);
+		const entry = { key, name, filePath: filePath!, func, params: getFunctionParams(func), path };
+		trackFunction(metadata, filePath!, key);
+
+		const isAuto =
+			!hasInline &&
+			canAutoInline &&
+			!!options.auto &&
+			isAutoInlinable(context, entry, options.auto);
+
+		// If the function is not inlineable, save it in case there is a call to it.
+		if (!hasInline && !isAuto) {
+			allFunctions.set(key, entry);
+		} else {
+			collectLocalDependencies(context, key, path);
+			inlinableFunctions.set(key, entry);
+			if (isAuto) autoFunctions.add(key);
+		}
+
+		// Collect pure functions.
+		if (hasPure) pureFunctions.add(key);
+
+		const annotations = getFunctionAnnotations(annotated);
+		if (Object.keys(annotations).length > 0) functionAnnotations.set(key, annotations);
+	}
 
-export function collectMetadata(ast: ParseResult<File>) {
 	// Look for any function that has a @inline or @pure decorator.
 	traverse(ast, {
 		// Collect function delcaratoins.
 		FunctionDeclaration(path) {
 			const node = path.node;
-			const hasInline = hasInlineDecorator(node) || hasInlineDecorator(path.parent);
-			const hasPure = hasPureDecorator(node) || hasPureDecorator(path.parent);
 
 			// Ignore anonymous functions.
 			if (!node.id) return;
-
-			// If the function is not inlineable, save it in case there is a call to it.
-			if (!hasInline) {
-				allFunctions.set(node.id.name, {
-					name: node.id.name,
-					func: node,
-					params: getFunctionParams(node),
-					path,
-				});
-			} else {
-				collectLocalDependencies(path);
-
-				inlinableFunctions.set(node.id.name, {
-					name: node.id.name,
-					func: node,
-					params: getFunctionParams(node),
-					path,
-				});
-			}
-
-			// Collect pure functions.
-			if (hasPure) pureFunctions.add(node.id.name);
+			// Only module-level functions are selected by `auto`, unless marked @noinline.
+			const canAutoInline =
+				path.parentPath.scope.path.isProgram() &&
+				!hasNoinlineDecorator(node) &&
+				!hasNoinlineDecorator(path.parent);
+			addFunction(node.id.name, node, path, [node, path.parent], canAutoInline);
 		},
 		// Collect arrow functions and function expressions (assigned to a variable).
 		VariableDeclarator(path) {
@@ -82,76 +252,235 @@ export function collectMetadata(ast: ParseResult<File>) {
 
 				// Ignore anonymous functions.
 				if (!isIdentifier(id)) return;
+				const canAutoInline =
+					isVariableDeclaration(path.parent, { kind: 'const' }) &&
+					path.scope.path.isProgram() &&
+					!hasNoinlineDecorator(init) &&
+					!hasNoinlineDecorator(path.parent) &&
+					!(path.parentPath.parentPath && hasNoinlineDecorator(path.parentPath.parent));
+				addFunction(id.name, init, path, [init], canAutoInline);
+			} else if (
+				isObjectExpression(init) &&
+				isIdentifier(node.id) &&
+				isVariableDeclaration(path.parent, { kind: 'const' }) &&
+				path.scope.path.isProgram()
+			) {
+				// Methods of a module-level `const` object literal, called as `object.method()`.
+				const objectName = node.id.name;
+				const initPath = path.get('init') as NodePath<ObjectExpression>;
+				for (const property of initPath.get('properties')) {
+					const member = getMemberName(property.node);
+					if (!member) continue;
 
-				// If the function is not inlineable, save it in case there is a call to it.
-				if (!hasInlineDecorator(init)) {
-					allFunctions.set(id.name, {
-						name: id.name,
-						func: init,
-						params: getFunctionParams(init),
-						path,
+					if (property.isObjectMethod({ kind: 'method' })) {
+						addFunction(`${objectName}.${member}`, property.node, property, [
+							property.node,
+							property.node.key,
+						]);
+					} else if (property.isObjectProperty()) {
+						const value = property.node.value;
+						if (!isArrowFunctionExpression(value) && !isFunctionExpression(value))
+							continue;
+						addFunction(`${objectName}.${member}`, value, property, [
+							property.node,
+							value,
+						]);
+					}
+				}
+			}
+		},
+		// Collect static methods of module-level classes, called as `Class.method()`.
+		// Instance methods and getters are keyed under `Class.prototype`, and called on an
+		// instance whose class can be proven, see `resolveInstanceMember`.
+		ClassDeclaration(path) {
+			const id = path.node.id;
+			// A class has a scope of its own, so look at the scope it is declared in.
+			if (!id || !path.parentPath.scope.path.isProgram()) return;
+
+			for (const method of path.get('body').get('body')) {
+				if (!method.isClassMethod() && !method.isClassPrivateMethod()) continue;
+				const { kind, static: isStatic } = method.node;
+				const isCallable = isStatic
+					? kind === 'method' && method.isClassMethod()
+					: kind === 'method' || kind === 'get';
+				if (!isCallable) continue;
+				const member = getMemberName(method.node);
+				if (!member) continue;
+
+				addFunction(
+					isStatic ? `${id.name}.${member}` : `${id.name}.prototype.${member}`,
+					method.node,
+					method,
+					[method.node, method.node.key]
+				);
+			}
+		},
+		// Record import bindings and exports so callees can be followed to their definition.
+		ImportDeclaration(path) {
+			const source = path.node.source.value;
+			for (const specifier of path.node.specifiers) {
+				if (specifier.type === 'ImportSpecifier') {
+					imports.set(specifier.local.name, {
+						source,
+						imported: getModuleExportName(specifier.imported),
 					});
+				} else if (specifier.type === 'ImportDefaultSpecifier') {
+					imports.set(specifier.local.name, { source, imported: 'default' });
 				} else {
-					collectLocalDependencies(path);
+					imports.set(specifier.local.name, { source, imported: '*' });
+				}
+			}
+		},
+		ExportNamedDeclaration(path) {
+			const { declaration, specifiers, source } = path.node;
 
-					inlinableFunctions.set(id.name, {
-						name: id.name,
-						func: init,
-						params: getFunctionParams(init),
-						path,
-					});
+			if (
+				(isFunctionDeclaration(declaration) || isClassDeclaration(declaration)) &&
+				declaration.id
+			) {
+				exports.named.set(declaration.id.name, { local: declaration.id.name });
+			} else if (isVariableDeclaration(declaration)) {
+				for (const declarator of declaration.declarations) {
+					if (isIdentifier(declarator.id)) {
+						exports.named.set(declarator.id.name, { local: declarator.id.name });
+					}
 				}
+			}
 
-				// Collect pure functions.
-				if (hasPureDecorator(init)) pureFunctions.add(id.name);
+			for (const specifier of specifiers) {
+				if (specifier.type !== 'ExportSpecifier') continue;
+				exports.named.set(getModuleExportName(specifier.exported), {
+					local: specifier.local.name,
+					source: source?.value,
+				});
 			}
 		},
-		CallExpression(path) {
-			const node = path.node;
-			const callee = node.callee;
-
-			// Check if parent is an expression statement.
-			if (path.parent.type === 'ExpressionStatement') {
-				const parent = path.parent as unknown as ExpressionStatement;
-				if (
-					!isCallExpression(parent.expression) ||
-					!isIdentifier(parent.expression.callee) ||
-					!hasInlineDecorator(parent)
-				)
-					return;
-
-				const name = parent.expression.callee.name;
-				callsiteInlineCandidates.add(name);
-			} else {
-				if (!isIdentifier(callee) || !hasInlineDecorator(node)) return;
-
-				const name = callee.name;
-				callsiteInlineCandidates.add(name);
+		ExportDefaultDeclaration(path) {
+			const declaration = path.node.declaration;
+			if (
+				(isFunctionDeclaration(declaration) || isClassDeclaration(declaration)) &&
+				declaration.id
+			) {
+				exports.named.set('default', { local: declaration.id.name });
+			} else if (isIdentifier(declaration)) {
+				exports.named.set('default', { local: declaration.name });
 			}
 		},
+		ExportAllDeclaration(path) {
+			exports.star.push(path.node.source.value);
+		},
 	});
 
-	// Resolve any call-site-only inline candidates to concrete function declarations.
-	// This is done after traversing each file so that declaration and usage order
-	// across files does not matter.
-	for (const name of callsiteInlineCandidates) {
-		if (inlinableFunctionCalls.has(name)) continue;
-		const func = allFunctions.get(name);
-		if (func) {
-			inlinableFunctionCalls.set(name, func);
+	// Resolve nested @inline calls after traversing each file so that declaration and usage
+	// order across files does not matter.
+	for (const func of inlinableFunctions.values()) {
+		collectDependencyChain(context, func.key, func.path);
+	}
+	dropRecursiveAutoFunctions(context);
+
+	collectSyntheticExports(context, filePath);
+}
+
+/**
+ * Deselect the functions `auto` selected that call themselves through other inlinable
+ * functions, as it only selects functions that are not recursive, and resolve the nested
+ * calls of the rest again without them.
+ */
+function dropRecursiveAutoFunctions(context: InlineContext) {
+	const { allFunctions, inlinableFunctions, autoFunctions } = context.metadata;
+
+	for (;;) {
+		const recursive = new Set(
+			findDependencyCycles(context)
+				.flat()
+				.filter((key) => autoFunctions.has(key))
+		);
+		if (recursive.size === 0) return;
+
+		for (const key of recursive) {
+			allFunctions.set(key, inlinableFunctions.get(key)!);
+			inlinableFunctions.delete(key);
+			autoFunctions.delete(key);
+			removeFunctionDependencies(context, key);
+		}
+		for (const func of inlinableFunctions.values()) {
+			collectDependencyChain(context, func.key, func.path);
 		}
 	}
+}
 
-	for (const func of inlinableFunctions.values()) {
-		collectDependencyChain(func.name, func.path);
+/**
+ * Find the name each module-level binding used by an @inline function of the file is
+ * exported under, so that other modules can import it once the function is inlined there.
+ * That includes the bindings of the @inline functions it calls, which end up in the same
+ * inlined copies. Bindings the file does not export get a synthetic export, which
+ * `inlineFunctions` adds when it transforms the file. Bindings the function assigns to are
+ * left out: inlining it into another module is refused instead, since an import cannot be
+ * assigned.
+ */
+function collectSyntheticExports(context: InlineContext, filePath: string) {
+	const { metadata } = context;
+	const exports = metadata.moduleExports.get(filePath);
+	if (!exports) return;
+
+	const localExports = new Map<string, string>();
+	for (const [exported, { local, source }] of exports.named) {
+		if (source === undefined && !localExports.has(local)) localExports.set(local, exported);
 	}
+
+	const syntheticExports = new Map<string, string>();
+	for (const key of getFunctionsForFile(context, filePath)) {
+		// Calls of other @inline functions are inlined into the function's inlined copies too.
+		for (const dep of getInlinedLocalDeps(context, key).values()) {
+			if (dep.fullPath !== filePath || isImportDeclaration(dep.declaration)) continue;
+
+			let exported = localExports.get(dep.name);
+			if (!exported && !dep.isAssigned) {
+				exported = `__inline_${dep.name}`;
+				while (exports.named.has(exported)) exported = `_${exported}`;
+				exports.named.set(exported, { local: dep.name });
+				localExports.set(dep.name, exported);
+				syntheticExports.set(dep.name, exported);
+			}
+			dep.exportedName = exported;
+		}
+	}
+
+	if (syntheticExports.size > 0) metadata.syntheticExports.set(filePath, syntheticExports);
+}
+
+/**
+ * Forget every function collected from a file. Returns the keys that were removed.
+ */
+export function removeMetadataForFile(context: InlineContext, filePath: string): Set<string> {
+	const { metadata } = context;
+	const keys = getFunctionsForFile(context, filePath);
+
+	for (const key of keys) {
+		metadata.allFunctions.delete(key);
+		if (metadata.inlinableFunctions.delete(key)) removeFunctionDependencies(context, key);
+		metadata.pureFunctions.delete(key);
+		metadata.autoFunctions.delete(key);
+		metadata.functionAnnotations.delete(key);
+		context.stats.deleteFunctionSize(key);
+	}
+
+	metadata.functionsByFile.delete(filePath);
+	metadata.moduleImports.delete(filePath);
+	metadata.moduleExports.delete(filePath);
+	metadata.syntheticExports.delete(filePath);
+	return keys;
 }
 
-export function resetMetadata() {
-	allFunctions.clear();
+export function resetMetadata(metadata: Metadata) {
+	metadata.allFunctions.clear();
 
-	inlinableFunctions.clear();
-	inlinableFunctionCalls.clear();
-	pureFunctions.clear();
-	callsiteInlineCandidates.clear();
+	metadata.inlinableFunctions.clear();
+	metadata.pureFunctions.clear();
+	metadata.autoFunctions.clear();
+	metadata.functionAnnotations.clear();
+	metadata.moduleImports.clear();
+	metadata.moduleExports.clear();
+	metadata.syntheticExports.clear();
+	metadata.functionsByFile.clear();
 }
@@ -0,0 +1,35 @@
+import { createMetadata, Metadata, resetMetadata } from './collect-metadata';
+import { createStats, Stats } from './stats';
+import {
+	createFunctionDependencies,
+	FunctionDependencies,
+	resetFunctionDependencies,
+} from './utils/collect-local-dependencies';
+import { ResolutionConfig } from './utils/resolution-config';
+
+/**
+ * Everything a single plugin instance knows about the project. Each instance owns its own
+ * context, so several builds in one process (e.g. client and SSR) never share metadata.
+ */
+export interface InlineContext {
+	metadata: Metadata;
+	dependencies: FunctionDependencies;
+	stats: Stats;
+	resolutionConfig: ResolutionConfig | null;
+}
+
+export function createInlineContext(): InlineContext {
+	return {
+		metadata: createMetadata(),
+		dependencies: createFunctionDependencies(),
+		stats: createStats(),
+		resolutionConfig: null,
+	};
+}
+
+export function resetInlineContext(context: InlineContext) {
+	resetMetadata(context.metadata);
+	resetFunctionDependencies(context.dependencies);
+	context.stats.reset();
+	context.resolutionConfig = null;
+}
@@ -6,7 +6,12 @@ import { getBabelDefaultExport } from './utils/babel-exports';
 const generate = getBabelDefaultExport(_generate);
 const traverse = getBabelDefaultExport(_traverse);
 
+/**
+ * Returns how many declarations were removed from each function.
+ */
 export function dedupVariables(transformedFunctions: Map<NodePath<Function>, { isPure: boolean }>) {
+	const removedCounts = new Map<NodePath<Function>, number>();
+
 	for (let [functionPath, { isPure }] of transformedFunctions) {
 		if (!isPure) continue;
 
@@ -76,6 +81,10 @@ export function dedupVariables(transformedFunctions: Map<NodePath<Function>, { i
 								variablesToReplace.set(variableName, firstDeclaration.name);
 								// Remove the declaration from the ast.
 								path.remove();
+								removedCounts.set(
+									functionPath,
+									(removedCounts.get(functionPath) ?? 0) + 1
+								);
 							}
 						}
 					} else {
@@ -103,4 +112,6 @@ export function dedupVariables(transformedFunctions: Map<NodePath<Function>, { i
 			functionPath.scope
 		);
 	}
+
+	return removedCounts;
 }
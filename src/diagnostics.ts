@@ -0,0 +1,149 @@
+import { SourceLocation } from '@babel/types';
+import { UnpluginMessage } from 'unplugin';
+import { createCodeFrame } from './utils/code-frame';
+
+/**
+ * What a diagnostic is about:
+ * - `unresolved-callee`: a call has the name of an @inline function but refers to something else
+ * - `unresolved-annotated-call`: a call site annotated @inline does not resolve to a function
+ * - `unsupported-callee`: a call of a method with the name of an @inline method is computed, or
+ *   its receiver's class is not known
+ * - `call-context`: the body uses `this`, `arguments`, `super` or private names in a way the
+ *   call site cannot provide
+ * - `placement`: the call is somewhere the statements of the body cannot be inserted
+ * - `module-state`: the body assigns to module state that the calling module can only import
+ * - `recursion`: @inline functions call each other in a cycle
+ * - `max-depth`: the call is nested in more inlined functions than `maxInlineDepth`
+ * - `annotated-depth`: the call is nested deeper in a function than its `@inline(depth=N)`
+ * - `max-body-size`, `max-expansions-per-function`, `max-growth-bytes`: inlining the call
+ *   would exceed the budget of the option of that name
+ * - `async`: an async function's call is not directly awaited in an async function
+ * - `generator`: the function is a generator
+ * - `import-rewrite`: an import the inlined body needs could not be resolved from the caller
+ * - `purity-conflict`: a @pure function assigns to module state or calls an impure @inline function
+ * - `parse-error`: a file could not be parsed to collect its metadata
+ * - `transform-error`: a file could not be transformed
+ */
+export type DiagnosticCode =
+	| 'unresolved-callee'
+	| 'unresolved-annotated-call'
+	| 'unsupported-callee'
+	| 'call-context'
+	| 'placement'
+	| 'module-state'
+	| 'recursion'
+	| 'max-depth'
+	| 'annotated-depth'
+	| 'max-body-size'
+	| 'max-expansions-per-function'
+	| 'max-growth-bytes'
+	| 'async'
+	| 'generator'
+	| 'import-rewrite'
+	| 'purity-conflict'
+	| 'parse-error'
+	| 'transform-error';
+
+/** How a diagnostic is reported to the bundler: not at all, as a warning, or as an error. */
+export type DiagnosticSeverity = 'off' | 'warn' | 'error';
+
+// Calls that only share the name of an @inline function are often meant that way, and
+// budgets and annotated depths are set on purpose. A call annotated @inline is not.
+const defaultSeverities: Record<DiagnosticCode, DiagnosticSeverity> = {
+	'unresolved-callee': 'off',
+	'unresolved-annotated-call': 'warn',
+	'unsupported-callee': 'warn',
+	'call-context': 'warn',
+	placement: 'warn',
+	'module-state': 'warn',
+	recursion: 'warn',
+	'max-depth': 'warn',
+	'annotated-depth': 'off',
+	'max-body-size': 'off',
+	'max-expansions-per-function': 'off',
+	'max-growth-bytes': 'off',
+	async: 'warn',
+	generator: 'warn',
+	'import-rewrite': 'warn',
+	'purity-conflict': 'warn',
+	'parse-error': 'warn',
+	'transform-error': 'warn',
+};
+
+/**
+ * The severity of a diagnostic code: the configured one, or its default, which `strict`
+ * raises from a warning to an error.
+ */
+export function getDiagnosticSeverity(
+	code: DiagnosticCode,
+	severities: Partial<Record<DiagnosticCode, DiagnosticSeverity>> = {},
+	strict = false
+): DiagnosticSeverity {
+	const severity = severities[code] ?? defaultSeverities[code];
+	return strict && !severities[code] && severity === 'warn' ? 'error' : severity;
+}
+
+export interface InlineDiagnostic {
+	code: DiagnosticCode;
+	/** What happened and why, e.g. why a call was not inlined. */
+	message: string;
+	/** Absolute path of the file the diagnostic is about. */
+	file: string;
+	/** 1-based line of the call or declaration. */
+	line?: number;
+	/** 1-based column of the call or declaration. */
+	column?: number;
+	/** The lines around the location, with the location marked. */
+	frame?: string;
+	/** The callee as written, for calls that were not inlined. */
+	callee?: string;
+}
+
+/**
+ * Create a diagnostic at a location of `file`, with a code frame when its source is known.
+ */
+export function createDiagnostic(
+	code: DiagnosticCode,
+	message: string,
+	file: string,
+	loc?: { start: Pick<SourceLocation['start'], 'line' | 'column'> } | null,
+	source?: string,
+	callee?: string
+): InlineDiagnostic {
+	const line = loc?.start.line;
+	const column = loc ? loc.start.column + 1 : undefined;
+
+	return {
+		code,
+		message,
+		file,
+		line,
+		column,
+		frame:
+			source !== undefined && line !== undefined
+				? createCodeFrame(source, line, column!)
+				: undefined,
+		callee,
+	};
+}
+
+/**
+ * Describe a call that was not inlined.
+ */
+export function describeSkippedCall(callee: string, reason: string) {
+	return `${callee}() was not inlined: ${reason}`;
+}
+
+/**
+ * Convert a diagnostic to a bundler warning or error. Bundlers count columns from 0.
+ */
+export function toUnpluginMessage(diagnostic: InlineDiagnostic): UnpluginMessage {
+	const { code, message, file, line, column, frame } = diagnostic;
+
+	return {
+		message: frame ? `${message}\n\n${frame}` : message,
+		code,
+		id: file,
+		loc: line !== undefined ? { file, line, column: column! - 1 } : undefined,
+	};
+}
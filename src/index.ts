@@ -4,10 +4,26 @@ import fg from 'fast-glob';
 import { createHash } from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
-import { createUnplugin } from 'unplugin';
-import { collectMetadata, resetMetadata } from './collect-metadata';
-import { inlineFunctions } from './inline-functions';
-import { STATS } from './stats';
+import picomatch from 'picomatch';
+import { createUnplugin, UnpluginContext } from 'unplugin';
+import {
+	collectMetadata,
+	getFunctionsForFile,
+	InlinableFunction,
+	removeMetadataForFile,
+} from './collect-metadata';
+import { createInlineContext, resetInlineContext } from './context';
+import {
+	createDiagnostic,
+	DiagnosticCode,
+	DiagnosticSeverity,
+	getDiagnosticSeverity,
+	InlineDiagnostic,
+	toUnpluginMessage,
+} from './diagnostics';
+import { InlineOutput, inlineFunctions } from './inline-functions';
+import { findDependencyCycles, findPurityConflicts } from './utils/collect-local-dependencies';
+import { createReport, ModuleReport, ReportOption, writeReport } from './report';
 import { discoverFilesViaReferences } from './utils/discover-files';
 import { findProjectRoot } from './utils/find-project-root';
 import { findWorkspaceRoot } from './utils/find-workspace-root';
@@ -16,11 +32,8 @@ import {
 	logMetadataCollectionForFile,
 	logMetadataCollectionSummary,
 } from './utils/debug-logging';
-import {
-	FollowPackageImportsOption,
-	ResolveImportHook,
-} from './utils/resolve-module-path';
-import { resetResolutionConfig, setResolutionConfig } from './utils/resolution-config';
+import { FollowPackageImportsOption, ResolveImportHook } from './utils/resolve-module-path';
+import { chainSourceMap } from './utils/source-maps';
 
 export interface InlineFunctionsOptions {
 	/**
@@ -113,10 +126,87 @@ export interface InlineFunctionsOptions {
 	 * an import as local source.
 	 */
 	resolveImport?: ResolveImportHook;
-}
 
-const astCache = new Map<string, any>(); // hash -> ast
-const codeCache = new Map<string, string>(); // hash -> transformed code
+	/**
+	 * Generate source maps for transformed files. Inlined statements map back to the
+	 * original `@inline` function body in its defining file.
+	 *
+	 * Defaults to the bundler's own sourcemap setting.
+	 */
+	sourcemap?: boolean;
+
+	/**
+	 * How many levels deep calls in inlined code are inlined in turn. Calls of @inline
+	 * functions nested deeper are left as normal calls. Recursive calls are never inlined,
+	 * whatever the depth.
+	 *
+	 * @default 10
+	 */
+	maxInlineDepth?: number;
+
+	/**
+	 * Also inline small functions that are not marked @inline: module-level functions of the
+	 * included files whose body returns a single expression of at most `maxNodes` AST nodes,
+	 * that do not call themselves, do not use `this` or `arguments` and do not assign to
+	 * anything. Mark a function `@noinline` to keep it from being selected.
+	 *
+	 * @default false
+	 */
+	auto?: boolean | { maxNodes?: number };
+
+	/**
+	 * Largest body, in AST nodes, of a function that is inlined. Calls of larger functions
+	 * stay calls.
+	 */
+	maxBodySize?: number;
+
+	/**
+	 * How many calls of each @inline function are inlined in a build. Calls beyond that stay
+	 * calls.
+	 */
+	maxExpansionsPerFunction?: number;
+
+	/**
+	 * How many bytes inlining may add to the build, measured as the compact size of each
+	 * inlined body less that of the call it replaces. Calls beyond that stay calls.
+	 */
+	maxGrowthBytes?: number;
+
+	/**
+	 * Called with every diagnostic: each call of an @inline function that was not inlined
+	 * and why, recursive @inline functions, and files that failed to parse. They are also
+	 * reported to the bundler, at the severity `strict` and `severity` give their code.
+	 */
+	diagnostics?: (diagnostic: InlineDiagnostic) => void;
+
+	/**
+	 * Fail the build on every problem that is otherwise a warning: calls of @inline functions
+	 * that could not be inlined, imports that could not be rewritten, @pure functions with
+	 * side effects, and files that could not be parsed or transformed.
+	 *
+	 * @default false
+	 */
+	strict?: boolean;
+
+	/**
+	 * How diagnostics of each code are reported to the bundler: `'off'`, `'warn'` or
+	 * `'error'`. Takes precedence over `strict`.
+	 *
+	 * @example { 'max-depth': 'off', placement: 'error' }
+	 */
+	severity?: Partial<Record<DiagnosticCode, DiagnosticSeverity>>;
+
+	/**
+	 * Write a report of every build: each @inline function with the call sites it was
+	 * inlined into, the functions calls were inlined into with their purity and
+	 * deduplication savings, and the calls that were skipped and why. A string is the path
+	 * of the JSON report, relative to `cwd`.
+	 *
+	 * @example 'reports/inline.json'
+	 * @example { json: 'reports/inline.json', html: 'reports/inline.html' }
+	 */
+	report?: ReportOption;
+}
 
 function hashContent(content: string): string {
 	return createHash('md5').update(content).digest('hex');
@@ -130,6 +220,10 @@ function realpathSafe(filePath: string): string {
 	}
 }
 
+function normalizeFileName(filePath: string): string {
+	return filePath.replace(/\\/g, '/');
+}
+
 /**
  * Check if debug mode is enabled (either true or 'verbose')
  */
@@ -144,7 +238,7 @@ function isVerboseDebug(debug: boolean | 'verbose' | undefined): boolean {
 	return debug === 'verbose';
 }
 
-export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((options = {}) => {
+export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((options = {}, meta) => {
 	const {
 		include = ['src/**/*.{js,ts,jsx,tsx}'],
 		exclude = ['node_modules/**', '**/*.spec.ts', '**/*.test.ts', '**/*.spec.js', '**/*.test.js'],
@@ -156,11 +250,49 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 		followImports = true,
 		followPackageImports = false,
 		resolveImport,
+		maxInlineDepth = 10,
+		auto = false,
+		maxBodySize,
+		maxExpansionsPerFunction,
+		maxGrowthBytes,
+		diagnostics,
+		strict = false,
+		severity,
+		report,
 	} = options;
 
+	// All state lives in this closure so separate plugin instances never share it.
+	const context = createInlineContext();
+	const codeCache = new Map<string, InlineOutput>(); // hash -> transformed code and map
+	const sourceContents = new Map<string, string>(); // file path -> original contents
+	const fileHashes = new Map<string, string>(); // file path -> hash of the collected contents
+	const moduleHashes = new Map<string, string>(); // module id -> hash of the transformed code
+	const dependents = new Map<string, Set<string>>(); // defining file -> ids of modules inlining from it
+	const importers = new Map<string, Set<string>>(); // file -> ids of modules importing from it
+	const reexporters = new Map<string, Set<string>>(); // file -> ids of modules re-exporting it
+	const invalidatedModules = new Map<string, string[]>(); // changed file -> ids it invalidated
+	const staleModules = new Set<string>(); // ids of invalidated modules the bundler may have cached
+	const reportedProblems = new Set<string>(); // messages of metadata problems that were reported
+	const pendingDiagnostics: InlineDiagnostic[] = []; // metadata diagnostics not yet reported
+	const moduleReports = new Map<string, ModuleReport>(); // module id -> what was inlined in it
+	const includedFiles = new Set<string>(); // files matching the include patterns
+
 	let initialized = false;
+	// Follows the bundler's sourcemap setting unless set explicitly.
+	let sourcemap = options.sourcemap ?? true;
+	// Rollup keeps only the first source of a transform map, so inlined code is mapped to
+	// its call site there instead of its defining file.
+	let crossFileSourceMaps = !['rollup', 'rolldown', 'vite'].includes(meta.framework);
 	const projectRoot = realpathSafe(findProjectRoot(cwd));
 	const detectedWorkspaceRoot = realpathSafe(workspaceRoot || findWorkspaceRoot(projectRoot));
+	const includePatterns = Array.isArray(include) ? include : [include];
+	const excludePatterns = Array.isArray(exclude) ? exclude : [exclude];
+	// Match the way fast-glob selects files, without scanning the project for every change.
+	const isIncludedPath = picomatch(includePatterns);
+	const isExcludedPath = picomatch(excludePatterns);
+	const autoInline = auto
+		? { maxNodes: (auto === true ? undefined : auto.maxNodes) ?? 20 }
+		: undefined;
 
 	if (isDebugEnabled(debug)) {
 		if (isVerboseDebug(debug)) {
@@ -190,22 +322,27 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 		initialized = true;
 
 		// Reset state
-		STATS.reset();
-		resetMetadata();
-		resetResolutionConfig();
-		astCache.clear();
+		resetInlineContext(context);
 		codeCache.clear();
-		setResolutionConfig({
+		sourceContents.clear();
+		fileHashes.clear();
+		moduleHashes.clear();
+		dependents.clear();
+		importers.clear();
+		reexporters.clear();
+		invalidatedModules.clear();
+		staleModules.clear();
+		reportedProblems.clear();
+		pendingDiagnostics.length = 0;
+		moduleReports.clear();
+		includedFiles.clear();
+		context.resolutionConfig = {
 			projectRoot,
 			workspaceRoot: detectedWorkspaceRoot,
 			alias,
 			followPackageImports,
 			resolveImport,
-		});
-
-		// Convert include to array
-		const includePatterns = Array.isArray(include) ? include : [include];
-		const excludePatterns = Array.isArray(exclude) ? exclude : [exclude];
+		};
 
 		// Find all files matching the patterns
 		const initialFiles = new Set(
@@ -216,6 +353,7 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 				onlyFiles: true,
 			})
 		);
+		for (const filePath of initialFiles) includedFiles.add(filePath);
 
 		// Discover files via exports and imports if enabled
 		const { files, discoveredViaExports } = discoverFilesViaReferences(initialFiles, {
@@ -250,55 +388,258 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 			// Skip non-JS/TS files
 			if (!/\.(js|ts|jsx|tsx)$/.test(filePath)) continue;
 
+			let contents: string | null = null;
 			try {
-				const contents = fs.readFileSync(filePath, 'utf8');
-				const hash = hashContent(contents);
-
-				const ast = parse(contents, {
-					sourceType: 'module',
-					plugins: ['typescript', 'jsx'],
-					sourceFilename: filePath,
-				});
-
-				astCache.set(hash, ast);
-				collectMetadata(ast);
+				contents = fs.readFileSync(filePath, 'utf8');
+				const ast = collectFile(filePath, contents);
 
 				// Log metadata collection for this file
 				logMetadataCollectionForFile(filePath, ast, projectRoot, discoveredViaExports, debug);
 			} catch (error) {
-				// Skip files that fail to parse
-				if (isDebugEnabled(debug)) {
-					const relativePath = path.relative(projectRoot, filePath);
-					console.warn(
-						chalk.yellow(
-							`[unplugin-inline-functions] Failed to parse ${relativePath}: ${error}`
-						)
-					);
-				} else {
-					console.warn(`Failed to parse ${filePath}:`, error);
-				}
+				reportParseFailure(filePath, contents, error);
 			}
 		}
 
 		// Log metadata collection summary
-		logMetadataCollectionSummary(filesArray, debug);
+		logMetadataCollectionSummary(context, filesArray, debug);
+		reportMetadataProblems();
+	}
+
+	/**
+	 * Parse a single file and collect its metadata.
+	 */
+	function collectFile(filePath: string, contents: string) {
+		const hash = hashContent(contents);
+
+		const ast = parse(contents, {
+			sourceType: 'module',
+			plugins: ['typescript', 'jsx'],
+			sourceFilename: filePath,
+		});
+
+		fileHashes.set(filePath, hash);
+		sourceContents.set(normalizeFileName(filePath), contents);
+		// Files discovered through imports and exports are not selected from by `auto`.
+		collectMetadata(context, ast, {
+			auto: includedFiles.has(filePath) ? autoInline : undefined,
+		});
+
+		return ast;
+	}
+
+	/**
+	 * Report diagnostics to the `diagnostics` option and to the bundler, at their severity.
+	 * Bundlers may stop at the first error, so warnings are reported first.
+	 */
+	function reportDiagnostics(pluginContext: UnpluginContext, reported: InlineDiagnostic[]) {
+		const errors: InlineDiagnostic[] = [];
+		for (const diagnostic of reported) {
+			diagnostics?.(diagnostic);
+			const level = getDiagnosticSeverity(diagnostic.code, severity, strict);
+			if (level === 'warn') pluginContext.warn(toUnpluginMessage(diagnostic));
+			if (level === 'error') errors.push(diagnostic);
+		}
+		for (const diagnostic of errors) pluginContext.error(toUnpluginMessage(diagnostic));
+	}
+
+	/**
+	 * The location Babel reports for a syntax error.
+	 */
+	function getErrorLocation(error: unknown) {
+		const loc = (error as { loc?: { line: number; column: number } } | null)?.loc;
+		return loc && { start: loc };
+	}
+
+	// Files that fail to parse are skipped, and reported once the bundler can be told.
+	function reportParseFailure(filePath: string, contents: string | null, error: unknown) {
+		pendingDiagnostics.push(
+			createDiagnostic(
+				'parse-error',
+				`Failed to parse ${path.relative(projectRoot, filePath)}, so its @inline functions are not collected: ${error instanceof Error ? error.message : error}`,
+				filePath,
+				getErrorLocation(error),
+				contents ?? undefined
+			)
+		);
+	}
+
+	/**
+	 * Report problems with the collected @inline functions: functions that call themselves
+	 * through a chain of @inline calls, and @pure functions with side effects. Each problem
+	 * is only reported once, also across watch updates.
+	 */
+	function reportMetadataProblems() {
+		const report = (
+			code: 'recursion' | 'purity-conflict',
+			message: string,
+			func: InlinableFunction | undefined,
+			fallbackFile: string
+		) => {
+			if (reportedProblems.has(message)) return;
+			reportedProblems.add(message);
+			pendingDiagnostics.push(
+				createDiagnostic(
+					code,
+					message,
+					func?.filePath ?? fallbackFile,
+					func?.func.loc,
+					func && sourceContents.get(normalizeFileName(func.filePath))
+				)
+			);
+		};
+
+		for (const cycle of findDependencyCycles(context)) {
+			// Cycles of functions nobody annotated are not for the user to fix.
+			if (cycle.every((key) => context.metadata.autoFunctions.has(key))) continue;
+			const functions = cycle.map((key) => context.metadata.inlinableFunctions.get(key));
+			const description = functions
+				.map((func, index) => func?.name ?? cycle[index])
+				.join(' → ');
+			report(
+				'recursion',
+				`Recursive @inline functions: ${description}. Recursive calls are left as normal calls.`,
+				functions[0],
+				cycle[0]
+			);
+		}
+
+		for (const [key, reason] of findPurityConflicts(context)) {
+			const func = context.metadata.inlinableFunctions.get(key);
+			report(
+				'purity-conflict',
+				`${func?.name ?? key} is marked @pure, but ${reason}.`,
+				func,
+				key
+			);
+		}
+	}
+
+	function isIncludedFile(filePath: string) {
+		const relativePath = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+		return isIncludedPath(relativePath) && !isExcludedPath(relativePath);
+	}
+
+	function getInlinableKeys(filePath: string) {
+		return Array.from(getFunctionsForFile(context, filePath)).filter((key) =>
+			context.metadata.inlinableFunctions.has(key)
+		);
+	}
+
+	/**
+	 * Get the ids of the modules that import from a file, directly or through modules that
+	 * re-export from it.
+	 */
+	function getImporters(filePath: string) {
+		const ids = new Set<string>();
+		const files = [filePath];
+		const seen = new Set(files);
+
+		for (const file of files) {
+			for (const id of importers.get(file) ?? []) ids.add(id);
+			for (const id of reexporters.get(file) ?? []) {
+				const reexportingFile = realpathSafe(id);
+				if (seen.has(reexportingFile)) continue;
+				seen.add(reexportingFile);
+				files.push(reexportingFile);
+			}
+		}
+
+		return ids;
+	}
+
+	/**
+	 * Re-collect metadata for a changed file and invalidate the cached output of every
+	 * module that inlined a function from it, or of every module importing from it when the
+	 * functions it makes inlinable change. Returns the ids of the invalidated modules.
+	 */
+	function updateMetadataForFile(filePath: string, event: 'create' | 'update' | 'delete') {
+		if (!initialized || !/\.(js|ts|jsx|tsx)$/.test(filePath)) return [];
+
+		// Only files in the metadata set, or new files matching the include patterns, matter.
+		const isTracked = fileHashes.has(filePath);
+		if (!isTracked && (event === 'delete' || !isIncludedFile(filePath))) return [];
+		if (!isTracked) includedFiles.add(filePath);
+		if (event === 'delete') includedFiles.delete(filePath);
+
+		let contents: string | null = null;
+		if (event !== 'delete') {
+			try {
+				contents = fs.readFileSync(filePath, 'utf8');
+			} catch {
+				contents = null;
+			}
+		}
+
+		// Editors can fire several events for a single save.
+		if (contents !== null && fileHashes.get(filePath) === hashContent(contents)) return [];
+
+		const inlinableBefore = getInlinableKeys(filePath);
+		fileHashes.delete(filePath);
+		sourceContents.delete(normalizeFileName(filePath));
+		const removedFunctions = removeMetadataForFile(context, filePath);
+
+		if (contents !== null) {
+			try {
+				collectFile(filePath, contents);
+			} catch (error) {
+				reportParseFailure(filePath, contents, error);
+			}
+			reportMetadataProblems();
+		}
+
+		// Modules that called a function before it became inlinable did not inline from here.
+		const inlinableAfter = getInlinableKeys(filePath);
+		const inlinableChanged =
+			inlinableAfter.length !== inlinableBefore.length ||
+			inlinableAfter.some((key) => !inlinableBefore.includes(key));
+		const invalidated = Array.from(
+			new Set([
+				...(dependents.get(filePath) ?? []),
+				...(inlinableChanged ? getImporters(filePath) : []),
+			])
+		);
+		for (const id of invalidated) {
+			const hash = moduleHashes.get(id);
+			if (hash) codeCache.delete(hash);
+			staleModules.add(id);
+		}
+		invalidatedModules.set(filePath, invalidated);
+
+		if (isVerboseDebug(debug)) {
+			const relativePath = path.relative(projectRoot, filePath);
+			const functions = new Set([
+				...removedFunctions,
+				...getFunctionsForFile(context, filePath),
+			]);
+			console.log(
+				chalk.blue(
+					`[unplugin-inline-functions] Re-collected metadata for ${relativePath} (${
+						functions.size
+					} function(s)), invalidated ${invalidated.length} dependent module(s)`
+				)
+			);
+		}
+
+		return invalidated;
 	}
 
 	/**
 	 * Log statistics about inlined functions.
 	 */
 	function logStats() {
-		const counts = Array.from(STATS.getAllInlinedFunctionCounts()).filter(
-			([name]) => name.trim() !== ''
-		);
+		const counts = Array.from(context.stats.getAllInlinedFunctionCounts());
 		if (counts.length > 0) {
 			console.log(chalk.green('\n✓ Inlined functions:'));
-			for (const [name, count] of counts) {
-				console.log(`  ${chalk.cyan(name)}: ${chalk.bold(count)}`);
+			// Functions of the same name in different files are counted apart.
+			for (const [key, count] of counts) {
+				const separator = key.lastIndexOf('#');
+				const name = key.slice(separator + 1);
+				const file = path.relative(projectRoot, key.slice(0, separator));
+				console.log(`  ${chalk.cyan(name)} ${chalk.gray(`(${file})`)}: ${chalk.bold(count)}`);
 			}
 		}
 
-		const functions = Array.from(STATS.getAllTransformedFunctions()).filter(
+		const functions = Array.from(context.stats.getAllTransformedFunctions()).filter(
 			([name]) => name.trim() !== ''
 		);
 
@@ -328,6 +669,14 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 		}
 	}
 
+	/**
+	 * Rollup reuses the output of unchanged modules across watch rebuilds, so modules that were
+	 * invalidated without a change of their own or of a file they watch are transformed again.
+	 */
+	function shouldTransformCachedModule({ id }: { id: string }) {
+		return staleModules.has(id);
+	}
+
 	return {
 		name: 'unplugin-inline-functions',
 
@@ -336,6 +685,8 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 			if (isVerboseDebug(debug)) {
 				console.log(chalk.blue('[unplugin-inline-functions] buildStart() called'));
 			}
+			// Watch mode rebuilds keep the metadata, but count what they inline anew.
+			context.stats.resetInlinedCounts();
 			scanAndCollectMetadata();
 		},
 
@@ -356,6 +707,9 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 				}
 				scanAndCollectMetadata();
 			}
+			// Bundlers can only be told about problems with the metadata from here, including
+			// those of files re-collected in watch mode.
+			reportDiagnostics(this, pendingDiagnostics.splice(0));
 
 			if (isVerboseDebug(debug)) {
 				console.log(chalk.blue(`[unplugin-inline-functions] Transforming file: ${id}`));
@@ -363,43 +717,175 @@ export const unplugin = createUnplugin<InlineFunctionsOptions | undefined>((opti
 
 			const hash = hashContent(code);
 
-			// Return cached result if available
-			if (codeCache.has(hash)) {
+			// Webpack-like bundlers hand us the input map and expect a chained one back.
+			const nativeContext = this.getNativeBuildContext?.();
+			const inputSourceMap =
+				nativeContext &&
+				(nativeContext.framework === 'webpack' || nativeContext.framework === 'rspack')
+					? nativeContext.inputSourceMap
+					: undefined;
+
+			const toResult = (output: InlineOutput) => {
+				const {
+					code,
+					map,
+					dependencies,
+					imports,
+					reexports,
+					inlinedCalls,
+					transformedFunctions,
+				} = output;
+				reportDiagnostics(this, output.diagnostics);
+				staleModules.delete(id);
+				// Counted here rather than while inlining, so cached output is counted as well.
+				for (const { key } of inlinedCalls) context.stats.incrementInlinedFunctionCount(key);
+				for (const { name, isPure } of transformedFunctions) {
+					if (name) context.stats.setTransformedFunction(name, isPure);
+				}
+				moduleReports.set(id, {
+					diagnostics: output.diagnostics,
+					inlinedCalls,
+					transformedFunctions,
+				});
+
+				// Re-run this transform whenever a file it inlined code from changes.
+				moduleHashes.set(id, hash);
+				for (const dependency of dependencies) {
+					if (dependency === id) continue;
+					this.addWatchFile(dependency);
+					const ids = dependents.get(dependency) ?? new Set<string>();
+					ids.add(id);
+					dependents.set(dependency, ids);
+				}
+				// And whenever a module it imports from changes what it makes inlinable.
+				for (const [files, modules] of [
+					[imports, importers],
+					[reexports, reexporters],
+				] as const) {
+					for (const file of files) {
+						const ids = modules.get(file) ?? new Set<string>();
+						ids.add(id);
+						modules.set(file, ids);
+					}
+				}
+
 				return {
-					code: codeCache.get(hash)!,
+					code,
+					map: map && inputSourceMap ? chainSourceMap(map, inputSourceMap, id) : map,
 				};
+			};
+
+			// Return cached result if available
+			if (codeCache.has(hash)) {
+				return toResult(codeCache.get(hash)!);
 			}
 
+			let output: InlineOutput;
 			try {
-				// Parse or use cached AST
-				const ast =
-					astCache.get(hash) ??
-					parse(code, {
-						sourceType: 'module',
-						plugins: ['typescript', 'jsx'],
-						sourceFilename: id,
-					});
+				// The metadata points into the AST collected from the file, which must keep the
+				// bodies as written, so the transform inlines into an AST of its own.
+				const ast = parse(code, {
+					sourceType: 'module',
+					plugins: ['typescript', 'jsx'],
+					sourceFilename: id,
+				});
 
 				// Transform the code
-				const transformedCode = inlineFunctions(ast);
-				codeCache.set(hash, transformedCode);
-
-				return {
-					code: transformedCode,
-				};
+				output = inlineFunctions(context, ast, {
+					sourceMaps: sourcemap,
+					sourceFileName: id,
+					sourceCode: code,
+					getSourceContent: (fileName) => sourceContents.get(normalizeFileName(fileName)),
+					crossFileSourceMaps,
+					debug,
+					maxInlineDepth,
+					maxBodySize,
+					maxExpansionsPerFunction,
+					maxGrowthBytes,
+				});
+				codeCache.set(hash, output);
 			} catch (error) {
-				console.error(`Failed to transform ${id}:`, error);
+				reportDiagnostics(this, [
+					createDiagnostic(
+						'transform-error',
+						`Failed to transform ${id}: ${error instanceof Error ? error.message : error}`,
+						id,
+						getErrorLocation(error),
+						code
+					),
+				]);
 				return null;
 			}
+
+			// Outside the try, so errors of diagnostics reach the bundler as they are.
+			return toResult(output);
 		},
 
 		buildEnd() {
 			// Log statistics after build completes
 			logStats();
+			if (report) writeReport(createReport(context, moduleReports, projectRoot), report, cwd);
+		},
+
+		watchChange(id, { event }) {
+			updateMetadataForFile(realpathSafe(id), event);
+		},
+
+		rollup: {
+			shouldTransformCachedModule,
+		},
+
+		vite: {
+			shouldTransformCachedModule,
+
+			configResolved(config) {
+				// The dev server always serves source maps and combines them on its own.
+				crossFileSourceMaps = config.command === 'serve';
+				if (options.sourcemap === undefined && config.command === 'build') {
+					sourcemap = Boolean(config.build.sourcemap);
+				}
+			},
+
+			handleHotUpdate({ file, modules, server }) {
+				const filePath = realpathSafe(file);
+				// A no-op when watchChange already handled this change.
+				updateMetadataForFile(filePath, 'update');
+
+				const affected = (invalidatedModules.get(filePath) ?? [])
+					.map((id) => server.moduleGraph.getModuleById(id))
+					.filter((mod) => mod !== undefined);
+				if (affected.length === 0) return;
+
+				for (const mod of affected) server.moduleGraph.invalidateModule(mod);
+				return [...modules, ...affected];
+			},
+		},
+
+		esbuild: {
+			config(buildOptions) {
+				if (options.sourcemap === undefined) {
+					sourcemap = Boolean(buildOptions.sourcemap);
+				}
+			},
+		},
+
+		webpack(compiler) {
+			if (options.sourcemap === undefined) {
+				sourcemap = Boolean(compiler.options.devtool);
+			}
+		},
+
+		rspack(compiler) {
+			if (options.sourcemap === undefined) {
+				sourcemap = Boolean(compiler.options.devtool);
+			}
 		},
 	};
 });
 
+export type { DiagnosticCode, DiagnosticSeverity, InlineDiagnostic } from './diagnostics';
+export type { InlineReport, ReportOption } from './report';
+
 // Export for convenience
 export const inlineFunctionsPlugin = unplugin.raw;
 export default unplugin;
@@ -1,57 +1,421 @@
 import _generate from '@babel/generator';
 import { ParseResult } from '@babel/parser';
-import _traverse, { NodePath } from '@babel/traverse';
+import _traverse, { NodePath, Scope } from '@babel/traverse';
 import {
+	ArrowFunctionExpression,
 	AssignmentExpression,
 	assignmentExpression,
 	BlockStatement,
 	blockStatement,
+	breakStatement,
 	CallExpression,
+	callExpression,
 	cloneNode,
 	Expression,
+	exportNamedDeclaration,
+	exportSpecifier,
 	expressionStatement,
 	ExpressionStatement,
 	file,
 	File,
+	ForStatement,
 	Function,
+	Identifier,
 	identifier,
+	isArrowFunctionExpression,
 	isAssignmentExpression,
 	isBlockStatement,
+	isCallExpression,
+	isClassAccessorProperty,
+	isClassMethod,
+	isClassPrivateMethod,
+	isClassProperty,
 	isExpressionStatement,
+	isForXStatement,
 	isIdentifier,
 	isMemberExpression,
+	isNewExpression,
+	isObjectMethod,
+	isObjectProperty,
+	isOptionalCallExpression,
+	isOptionalMemberExpression,
+	isPrivateName,
+	isReturnStatement,
+	isThisExpression,
+	isUnaryExpression,
+	isUpdateExpression,
+	isVariableDeclarator,
+	labeledStatement,
+	MemberExpression,
+	Node,
 	program,
 	returnStatement,
+	sequenceExpression,
+	SourceLocation,
 	Statement,
+	traverseFast,
 	V8IntrinsicIdentifier,
 	variableDeclaration,
 	variableDeclarator,
+	VariableDeclarator,
 } from '@babel/types';
+import fs from 'node:fs';
+import { InlinableFunction } from './collect-metadata';
+import { InlineContext } from './context';
 import {
-	InlinableFunction,
-	inlinableFunctionCalls,
-	inlinableFunctions,
-	pureFunctions,
-} from './collect-metadata';
+	createDiagnostic,
+	describeSkippedCall,
+	DiagnosticCode,
+	InlineDiagnostic,
+} from './diagnostics';
 import { dedupVariables } from './dedup-variables';
-import { STATS } from './stats';
 import { addImportsForDependencies } from './utils/add-import-for-dependencies';
+import { getFunctionLocalDeps } from './utils/collect-local-dependencies';
 import { getBabelDefaultExport } from './utils/babel-exports';
-import { hasInlineDecorator, removeDecorators } from './utils/decorator-utils';
+import {
+	getAnnotations,
+	hasInlineDecorator,
+	hasNoinlineDecorator,
+	removeDecorators,
+} from './utils/decorator-utils';
+import { bindArguments } from './utils/bind-arguments';
+import { getAssignedNames } from './utils/get-assigned-names';
+import { getClosureNames } from './utils/get-closure-names';
+import { isNoinlineFile, isNoinlineFunction } from './utils/is-noinline';
+import { bindsOwnContext, getContextReferences, isNewTarget } from './utils/get-context-references';
 import { getFunctionBody } from './utils/get-function-body';
 import { getFunctionName } from './utils/get-function-name';
-import { removeImportForFunction } from './utils/remove-import-for-function';
+import { getModuleImports, ModuleImports } from './utils/get-module-imports';
+import { hasStructuredReturns } from './utils/has-structured-returns';
+import {
+	canConvertStatementToExpression,
+	convertStatementToExpression,
+	getDeclaredNames,
+} from './utils/convert-statement-to-expression';
+import { findEvaluationContext } from './utils/find-evaluation-context';
+import { moveLoopClauseIntoBody } from './utils/move-loop-clause-into-body';
+import { moveDefaultsIntoBody } from './utils/move-defaults-into-body';
+import { removeUnusedImports } from './utils/remove-import-for-function';
 import { detectInlineIfBranch } from './utils/detect-inline-if-branch';
+import { DebugOption, logSkippedCall } from './utils/debug-logging';
+import {
+	explainUnresolvedCallee,
+	explainUnresolvedMember,
+	getCalleeReference,
+	resolveCalledFunction,
+} from './utils/resolve-function';
+import { measureFunctionSize } from './utils/measure-function-size';
+import { resolveInstanceMember } from './utils/resolve-instance-member';
+import { attachSourcesContent, EncodedSourceMap } from './utils/source-maps';
 
 const generate = getBabelDefaultExport(_generate);
 const traverse = getBabelDefaultExport(_traverse);
 
-export function inlineFunctions(ast: ParseResult<File>) {
+function realpathSafe(filePath: string): string {
+	try {
+		return fs.realpathSync(filePath);
+	} catch {
+		return filePath;
+	}
+}
+
+/**
+ * The scope that names in the body of an inlined function are looked up in.
+ */
+function getBodyScope(func: InlinableFunction) {
+	return isVariableDeclarator(func.path.node)
+		? (func.path as NodePath<VariableDeclarator>).get('init').scope
+		: func.path.scope;
+}
+
+/**
+ * Check if an identifier names a property instead of referring to a binding.
+ */
+function isPropertyName(path: NodePath<Identifier>) {
+	const { parent } = path;
+	if (isMemberExpression(parent) || isOptionalMemberExpression(parent)) {
+		return path.key === 'property' && !parent.computed;
+	}
+	if (
+		isObjectProperty(parent) ||
+		isObjectMethod(parent) ||
+		isClassProperty(parent) ||
+		isClassMethod(parent) ||
+		isClassAccessorProperty(parent)
+	) {
+		return path.key === 'key' && !parent.computed;
+	}
+	return false;
+}
+
+/**
+ * Check if a member expression only reads its property, as opposed to calling, assigning
+ * or deleting it.
+ */
+function isPropertyRead(path: NodePath<MemberExpression>) {
+	const { node, parent, parentPath } = path;
+	if (
+		(isCallExpression(parent) || isNewExpression(parent) || isOptionalCallExpression(parent)) &&
+		parent.callee === node
+	) {
+		return false;
+	}
+	if ((isAssignmentExpression(parent) || isForXStatement(parent)) && parent.left === node) {
+		return false;
+	}
+	if (isUpdateExpression(parent) || isUnaryExpression(parent, { operator: 'delete' })) {
+		return false;
+	}
+	return !parentPath?.isPattern() && !parentPath?.parentPath?.isObjectPattern();
+}
+
+function isGetter(func: InlinableFunction['func']) {
+	return (isClassMethod(func) || isClassPrivateMethod(func)) && func.kind === 'get';
+}
+
+/**
+ * The name of the property a member expression calls, for naming temporaries.
+ */
+function getPropertyLabel(callee: MemberExpression) {
+	const { property } = callee;
+	if (isPrivateName(property)) return property.id.name;
+	return isIdentifier(property) ? property.name : 'member';
+}
+
+/**
+ * Spell out `{ name }` as `{ name: value }` before its value is renamed or substituted.
+ */
+function unsetShorthand(path: NodePath<Identifier>) {
+	if (isObjectProperty(path.parent) && path.key === 'value') path.parent.shorthand = false;
+}
+
+/**
+ * Insert statements before the statement containing a call, and return the path of the
+ * statement they were inserted before.
+ */
+function insertBeforeStatement(
+	path: NodePath<CallExpression>,
+	statements: Statement[]
+): NodePath | undefined {
+	// A concise arrow body has no statements of its own, so give it a block first.
+	const arrowBody = path.find(
+		(ancestor) =>
+			ancestor.isStatement() ||
+			ancestor.isFunction() ||
+			(ancestor.key === 'body' && !!ancestor.parentPath?.isArrowFunctionExpression())
+	);
+	if (arrowBody && !arrowBody.isStatement() && !arrowBody.isFunction()) {
+		const arrowPath: NodePath<ArrowFunctionExpression> =
+			arrowBody.parentPath as NodePath<ArrowFunctionExpression>;
+		arrowPath.ensureBlock();
+	}
+
+	const statementPath = path.getStatementParent();
+	if (!statementPath) return undefined;
+
+	const inlineInfo = detectInlineIfBranch(path, statementPath);
+
+	if (inlineInfo.needsWrapping) {
+		const ifNode = inlineInfo.ifNode!;
+		const branch = inlineInfo.branch === 'consequent' ? ifNode.consequent : ifNode.alternate!;
+
+		// Wrap the branch in a block
+		if (inlineInfo.branch === 'consequent') {
+			ifNode.consequent = blockStatement([branch]);
+		} else {
+			ifNode.alternate = blockStatement([branch]);
+		}
+
+		// Get the wrapped block and insert into it
+		const branchBlockPath = inlineInfo.ifPath!.get(
+			inlineInfo.branch!
+		) as NodePath<BlockStatement>;
+		const firstStmt = branchBlockPath.get('body')[0];
+		if (firstStmt) {
+			firstStmt.insertBefore(statements);
+			return firstStmt;
+		}
+	}
+
+	statementPath.insertBefore(statements);
+	return statementPath;
+}
+
+export interface InlineOutputOptions {
+	/** Generate a source map for the transformed code. */
+	sourceMaps?: boolean;
+	/** Name of the transformed file, used for nodes without their own location. */
+	sourceFileName?: string;
+	/** Original code of the transformed file. */
+	sourceCode?: string;
+	/** Look up the original code of a file that inlined code was taken from. */
+	getSourceContent?: (fileName: string) => string | undefined;
+	/**
+	 * Map inlined code back to its defining file. When false, inlined code maps to the call
+	 * site instead, for bundlers that only keep the first source of a transform map.
+	 */
+	crossFileSourceMaps?: boolean;
+	/** Log call sites that were skipped because their callee is not an @inline function. */
+	debug?: DebugOption;
+	/** How many inlined functions a call can be nested in and still be inlined itself. */
+	maxInlineDepth?: number;
+	/** Largest body, in AST nodes, that is inlined. */
+	maxBodySize?: number;
+	/** How many calls of each function are inlined, across all modules. */
+	maxExpansionsPerFunction?: number;
+	/** How many bytes inlining may add to all modules together. */
+	maxGrowthBytes?: number;
+}
+
+/** A call that was inlined. */
+export interface InlinedCall {
+	/** Key of the function that was inlined. */
+	key: string;
+	/** File of the call, which is the file it was inlined from for calls in inlined code. */
+	file: string;
+	line?: number;
+	column?: number;
+	/** Name of the function the call is in, if it has one. */
+	caller?: string;
+	/** Whether everything inlined into that function is @pure. */
+	callerIsPure?: boolean;
+	/** Bytes the body adds in place of the call. */
+	growthBytes: number;
+}
+
+/** A function that calls were inlined into. */
+export interface TransformedFunction {
+	/** The name of the function, if it has one. */
+	name?: string;
+	line?: number;
+	/** Whether everything inlined into it is @pure. */
+	isPure: boolean;
+	/** Repeated declarations of the same expression that were removed. */
+	deduplicated: number;
+}
+
+/** The output of a module, with the files it imports from to invalidate it when they change. */
+export interface InlineOutput extends ModuleImports {
+	code: string;
+	map: EncodedSourceMap | null;
+	/** Files defining the functions that were inlined, so watchers can invalidate on change. */
+	dependencies: string[];
+	/** Calls that were not inlined, and why. */
+	diagnostics: InlineDiagnostic[];
+	/** Calls that were inlined. */
+	inlinedCalls: InlinedCall[];
+	/** Functions that calls were inlined into. */
+	transformedFunctions: TransformedFunction[];
+}
+
+export function inlineFunctions(
+	context: InlineContext,
+	ast: ParseResult<File>,
+	options: InlineOutputOptions = {}
+): InlineOutput {
+	const {
+		sourceMaps = false,
+		sourceFileName,
+		sourceCode,
+		getSourceContent,
+		crossFileSourceMaps = true,
+		debug,
+		maxInlineDepth = 10,
+		maxBodySize = Infinity,
+		maxExpansionsPerFunction = Infinity,
+		maxGrowthBytes = Infinity,
+	} = options;
+	const { allFunctions, inlinableFunctions, pureFunctions, functionAnnotations } = context.metadata;
+	const { stats } = context;
+	// `@pure(reads)` functions read state that can change between calls, so the reads of
+	// their inlined bodies are neither deferred nor deduplicated.
+	const isStablePure = (key: string) =>
+		pureFunctions.has(key) && !functionAnnotations.get(key)?.readsState;
+	const filePath = realpathSafe(ast.program.loc?.filename ?? sourceFileName ?? '');
+	// Resolved before unused imports of inlined functions are removed.
+	const moduleImports = getModuleImports(context, ast, filePath);
+	// Identifiers cloned from an inlined body, and the function they were cloned from.
+	const inlinedFrom = new WeakMap<Node, InlinableFunction>();
+	// Names of identifiers that were renamed to an import alias, as their home module knows them.
+	const originalNames = new WeakMap<Node, string>();
 	let uniqueCounter = 0;
+	const dependencies = new Set<string>();
 	const transformedFunctions = new Map<NodePath<Function>, { isPure: boolean }>();
+	// Getter reads turned into calls to inline them, and reads that were put back.
+	const getterReads = new WeakSet<Node>();
+	const keptGetterReads = new WeakSet<Node>();
+	// Nodes of inlined bodies, and the keys of the functions they were inlined through.
+	const inlineChains = new WeakMap<Node, string[]>();
+	// Local names of inlined functions, whose imports are removed unless calls are left.
+	const inlinedImports = new Set<string>();
+
+	// Code the caller passed in, like arguments, takes the chain of the body it ends up in,
+	// which includes the chain of the call it came from.
+	const getInlineChain = (path: NodePath) => {
+		for (let current: NodePath | null = path; current; current = current.parentPath) {
+			const chain = inlineChains.get(current.node);
+			if (chain) return chain;
+		}
+		return [];
+	};
+
+	const diagnostics: InlineDiagnostic[] = [];
+	const inlinedCalls: {
+		key: string;
+		loc?: SourceLocation | null;
+		caller: NodePath<Function> | null;
+		growthBytes: number;
+	}[] = [];
+	// This module's expansions are counted again from scratch.
+	stats.resetModuleExpansions(filePath);
+	// Nothing is inlined into a file that opts out with @noinline.
+	const isNoinline = isNoinlineFile(ast);
+	// Code inlined from another file is located in that file.
+	const getLocationFile = (loc: SourceLocation | null | undefined) =>
+		loc?.filename ?? sourceFileName ?? filePath;
+	const addDiagnostic = (
+		code: DiagnosticCode,
+		message: string,
+		loc: SourceLocation | null | undefined,
+		callee: string
+	) => {
+		const file = getLocationFile(loc);
+		const source = file === sourceFileName ? sourceCode : getSourceContent?.(file);
+		diagnostics.push(createDiagnostic(code, message, file, loc, source, callee));
+	};
+
+	const formatCycle = (keys: string[]) =>
+		keys.map((key) => inlinableFunctions.get(key)?.name ?? key).join(' → ');
+
+	// Names in inlined code refer to bindings of the module they were inlined from.
+	const resolveReference = (object: Identifier, scope: Scope, member?: string) => {
+		const origin = inlinedFrom.get(object);
+		return resolveCalledFunction(
+			context,
+			origin ? origin.filePath : filePath,
+			originalNames.get(object) ?? object.name,
+			origin ? getBodyScope(origin) : scope,
+			member
+		);
+	};
 
 	// Inline all invocations of the inlinable functions.
 	traverse(ast, {
+		MemberExpression(path) {
+			// Reads of @inline getters are inlined like calls of them without arguments.
+			if (keptGetterReads.has(path.node) || !isPropertyRead(path)) return;
+
+			const key = resolveInstanceMember(path, resolveReference);
+			const getter = key ? inlinableFunctions.get(key) : undefined;
+			if (!getter || !isGetter(getter.func)) return;
+
+			const call = callExpression(path.node, []);
+			call.loc = path.node.loc;
+			getterReads.add(call);
+			const chain = inlineChains.get(path.node);
+			if (chain) inlineChains.set(call, chain);
+			path.replaceWith(call);
+		},
 		CallExpression(path) {
 			// const callee = path.node.callee;
 			let callee: V8IntrinsicIdentifier | Expression;
@@ -64,11 +428,65 @@ export function inlineFunctions(ast: ParseResult<File>) {
 				callee = path.node.callee;
 			}
 
-			// Only support named function calls -- ie not methods or accessors.
-			if (!isIdentifier(callee)) return;
+			const callSite = isCallExpressionStatement ? path.parent : path.node;
+
+			// Only support calls of named functions, of named methods of a named object, class
+			// or namespace import, and of instance methods -- ie not computed members. Annotated
+			// calls of anything else are reported.
+			const reference = getCalleeReference(callee);
+			if (!reference && !isMemberExpression(callee) && !hasInlineDecorator(callSite)) return;
+			const isGetterRead = getterReads.has(path.node);
+			const calleeLabel = isMemberExpression(callee)
+				? getPropertyLabel(callee)
+				: (callee as Identifier).name;
+			// Inlined names that were aliased are resolved by the name their home module uses.
+			const calleeName =
+				reference && (originalNames.get(reference.object) ?? reference.object.name);
+			const calleeDisplayName = reference
+				? reference.member === undefined
+					? calleeName!
+					: `${calleeName}.${reference.member}`
+				: generate(callee).code;
+			// Calls that were not inlined are logged in debug mode, and reported as diagnostics
+			// when there is something to fix about them.
+			const logSkipped = (reason: string, code?: DiagnosticCode) => {
+				logSkippedCall(
+					filePath,
+					path.node.loc,
+					calleeDisplayName,
+					reason,
+					context.resolutionConfig?.projectRoot,
+					debug
+				);
+				if (code) {
+					addDiagnostic(
+						code,
+						describeSkippedCall(calleeDisplayName, reason),
+						path.node.loc,
+						calleeDisplayName
+					);
+				}
+			};
+			// Skip a call that would otherwise be inlined. A getter read is put back as it was.
+			const skipCall = (reason: string, code?: DiagnosticCode) => {
+				logSkipped(reason, code);
+				if (!isGetterRead) return;
+				keptGetterReads.add(callee);
+				path.replaceWith(callee as MemberExpression);
+			};
+
+			let calleeKey =
+				reference && resolveReference(reference.object, path.scope, reference.member);
+			// Instance methods are resolved through the class of their receiver.
+			if (!calleeKey && isMemberExpression(callee)) {
+				calleeKey = resolveInstanceMember(
+					path.get('callee') as NodePath<MemberExpression>,
+					resolveReference
+				);
+			}
 
 			// Add /*#__PURE__*/ flags to calls of pure functions (before inlining logic)
-			if (pureFunctions.has(callee.name)) {
+			if (calleeKey && pureFunctions.has(calleeKey)) {
 				// Add /*#__PURE__*/ comment before the call
 				if (!path.node.leadingComments) {
 					path.node.leadingComments = [];
@@ -89,57 +507,387 @@ export function inlineFunctions(ast: ParseResult<File>) {
 
 			let inlinableFn: InlinableFunction | undefined;
 
-			if (inlinableFunctions.has(callee.name)) {
-				inlinableFn = inlinableFunctions.get(callee.name)!;
-			} else if (
-				inlinableFunctionCalls.has(callee.name) &&
-				hasInlineDecorator(isCallExpressionStatement ? path.parent : path.node)
+			if (calleeKey && inlinableFunctions.has(calleeKey)) {
+				inlinableFn = inlinableFunctions.get(calleeKey)!;
+			} else if (calleeKey && hasInlineDecorator(callSite)) {
+				// Any function can be inlined at a call site annotated with /* @inline */.
+				inlinableFn = allFunctions.get(calleeKey);
+			}
+
+			if (!inlinableFn) {
+				const origin = reference && inlinedFrom.get(reference.object);
+				if (hasInlineDecorator(callSite)) {
+					logSkipped(
+						'annotated call site could not be resolved to a function',
+						'unresolved-annotated-call'
+					);
+				} else if (!isMemberExpression(callee)) {
+					const reason = explainUnresolvedCallee(
+						context,
+						calleeName!,
+						origin ? getBodyScope(origin) : path.scope
+					);
+					if (reason) logSkipped(reason, 'unresolved-callee');
+				} else if (!calleeKey) {
+					const reason = explainUnresolvedMember(context, callee);
+					if (reason) logSkipped(reason, 'unsupported-callee');
+				}
+				return;
+			}
+
+			// A getter only runs when its property is read, and a method only when called.
+			if (isGetter(inlinableFn.func) !== isGetterRead) return;
+
+			// Calls annotated /* @noinline */ or /* @inline(false) */ stay calls, as do all calls
+			// in a function or file annotated so.
+			if (hasNoinlineDecorator(callSite)) {
+				skipCall('the call is annotated @noinline');
+				return;
+			}
+			const noinlineCaller = path.findParent(
+				(ancestor) => ancestor.isFunction() && isNoinlineFunction(ancestor)
+			) as NodePath<Function> | null;
+			if (noinlineCaller) {
+				skipCall(
+					`${getFunctionName(noinlineCaller) || 'the function it is in'} is annotated @noinline`
+				);
+				return;
+			}
+			if (isNoinline) {
+				skipCall('its file is annotated @noinline');
+				return;
+			}
+
+			// A generator's body only runs as its iterator is consumed, never in place of the call.
+			if (inlinableFn.func.generator) {
+				skipCall(
+					'it is a generator, whose body runs as its iterator is consumed',
+					'generator'
+				);
+				return;
+			}
+
+			// An async function's call evaluates to a promise of its result. Where the call is
+			// awaited, the await is kept around the inlined result, so it still waits for what
+			// the body returns, and the caller is async, so awaits in the body still work.
+			if (inlinableFn.func.async && !path.parentPath.isAwaitExpression()) {
+				skipCall(
+					'it is async, and only calls that are directly awaited in an async function are inlined',
+					'async'
+				);
+				return;
+			}
+
+			// A recursive function is inlined once where it is called from, and its recursive
+			// calls are left as they are, as is the call it makes within its own definition.
+			const inlineChain = getInlineChain(path);
+			const cycleStart = inlineChain.indexOf(inlinableFn.key);
+			const definition = inlinableFn.filePath === filePath ? inlinableFn.func : undefined;
+			const isInOwnDefinition =
+				!!definition &&
+				!!path.findParent(
+					(ancestor) =>
+						ancestor.isFunction() &&
+						!inlineChains.has(ancestor.node) &&
+						ancestor.node.start === definition.start &&
+						ancestor.node.end === definition.end
+				);
+			if (cycleStart !== -1 || isInOwnDefinition) {
+				const cycle =
+					cycleStart !== -1
+						? [...inlineChain.slice(cycleStart), inlinableFn.key]
+						: [inlinableFn.key, ...inlineChain, inlinableFn.key];
+				// The cycle itself was reported when the metadata was collected.
+				skipCall(`it is recursive (${formatCycle(cycle)}), so inlining it would not end`);
+				return;
+			}
+
+			if (inlineChain.length >= maxInlineDepth) {
+				skipCall(
+					`it is nested in ${inlineChain.length} inlined functions, the maxInlineDepth`,
+					'max-depth'
+				);
+				return;
+			}
+			// `@inline(depth=N)` is the maxInlineDepth of everything inlined through a function,
+			// counting the function itself.
+			const depthLimited = inlineChain.find((key, index) => {
+				const depth = functionAnnotations.get(key)?.depth;
+				return depth !== undefined && inlineChain.length - index >= depth;
+			});
+			if (depthLimited) {
+				const { depth } = functionAnnotations.get(depthLimited)!;
+				skipCall(
+					`it is nested in ${formatCycle([depthLimited])}, which is annotated @inline(depth=${depth})`,
+					'annotated-depth'
+				);
+				return;
+			}
+
+			const body = getFunctionBody(inlinableFn.func);
+			const uniqueSuffix = `_${uniqueCounter++}_$f`;
+
+			// A function called on its own runs with `this` and `new.target` undefined, and its
+			// arguments as `arguments`. An arrow function sees those of the code around it
+			// instead, which only match at the top level of a module, and there without
+			// `arguments`.
+			const contextReferences = getContextReferences(body);
+			if (isArrowFunctionExpression(inlinableFn.func)) {
+				const hasEnclosingContext = !!inlinableFn.path.findParent((ancestor) =>
+					bindsOwnContext(ancestor.node)
+				);
+				const contextName = contextReferences.arguments
+					? 'arguments'
+					: hasEnclosingContext && contextReferences.this
+						? 'this'
+						: hasEnclosingContext && contextReferences.newTarget
+							? 'new.target'
+							: undefined;
+				if (contextName) {
+					skipCall(
+						`it is an arrow function that uses the \`${contextName}\` of its surrounding code`,
+						'call-context'
+					);
+					return;
+				}
+			}
+
+			// `super` and private names only work inside the class or object that defines them.
+			let usesPrivateNames = false;
+			traverseFast(body, (node) => {
+				if (isPrivateName(node)) usesPrivateNames = true;
+			});
+			const definingClass = inlinableFn.path.findParent((ancestor) => ancestor.isClass());
+			const isInDefiningClass =
+				!!definingClass?.isClassDeclaration() &&
+				inlinableFn.filePath === filePath &&
+				!!path.findParent(
+					(ancestor) =>
+						ancestor.isClassDeclaration() &&
+						ancestor.node.id?.name === definingClass.node.id?.name
+				);
+			if (contextReferences.super || (usesPrivateNames && !isInDefiningClass)) {
+				skipCall(
+					`it uses ${contextReferences.super ? '`super`' : 'private names'}, which only work inside the class or object that defines it`,
+					'call-context'
+				);
+				return;
+			}
+
+			// Map parameters to their arguments. Arguments are evaluated exactly once and left
+			// to right, so anything but a literal or a variable nothing assigns to is stored in
+			// a temporary before the inlined body runs.
+			const { paramMappings, argumentStatements, parameterStatements, argumentsArray } =
+				bindArguments(inlinableFn.params, path.node.arguments, {
+					assignedNames: getAssignedNames(body),
+					closureNames: getClosureNames(body),
+					allowMemberChains: isStablePure(inlinableFn.key),
+					collectArguments: contextReferences.arguments,
+					isConstantBinding: (name) => path.scope.getBinding(name)?.kind === 'const',
+					isUnchangedBinding: (name) => {
+						const binding = path.scope.getBinding(name);
+						return binding ? binding.constant : name === 'undefined';
+					},
+					uniqueSuffix,
+				});
+
+			// A method runs with the object it is called on as `this`, which is evaluated before
+			// its arguments.
+			let receiver: Expression | undefined;
+			if (
+				isMemberExpression(callee) &&
+				contextReferences.this &&
+				!isArrowFunctionExpression(inlinableFn.func)
 			) {
-				inlinableFn = inlinableFunctionCalls.get(callee.name)!;
+				receiver = callee.object;
+				if (!isThisExpression(receiver) && argumentStatements.length > 0) {
+					const receiverName = `this_arg${uniqueSuffix}`;
+					argumentStatements.unshift(
+						variableDeclaration('const', [
+							variableDeclarator(identifier(receiverName), receiver),
+						])
+					);
+					receiver = identifier(receiverName);
+				}
+			}
+
+			// A body that is a single return becomes a plain expression. Anything else needs
+			// statements, which must only run when the call itself runs.
+			const isSingleReturn =
+				!isBlockStatement(body) ||
+				(body.body.length === 1 && isReturnStatement(body.body[0]));
+			const needsStatements =
+				argumentStatements.length > 0 || parameterStatements.length > 0 || !isSingleReturn;
+			const evaluation = needsStatements
+				? findEvaluationContext(path)
+				: ({ kind: 'statement' } as const);
+
+			if (evaluation.kind === 'unsupported') {
+				skipCall(`statements cannot be inserted here: ${evaluation.reason}`, 'placement');
+				return;
+			}
+
+			if (evaluation.kind === 'parameter') {
+				const { functionPath, paramPath } = evaluation;
+				// The defaults were already moved, and the call is visited again from the body.
+				if (paramPath.container !== functionPath.node.params) return;
+
+				if (!moveDefaultsIntoBody(functionPath, paramPath.node)) {
+					skipCall(
+						'it is in a parameter default that cannot be moved into the function body',
+						'placement'
+					);
+				}
+				path.skip();
+				return;
 			}
 
-			if (!inlinableFn) return;
-			STATS.incrementInlinedFunctionCount(inlinableFn.name);
+			// Returns nested in loops, switch or try exit through a labeled block instead.
+			const exitsEarly = isBlockStatement(body) && !hasStructuredReturns(body.body);
+
+			// Calls that run conditionally, once per loop iteration or after other code of their
+			// statement keep their body in place as an expression, which only works for bodies
+			// without loops and the like.
+			const canLowerToExpression =
+				!isBlockStatement(body) ||
+				(!exitsEarly && body.body.every(canConvertStatementToExpression));
+			const lowerToExpression =
+				evaluation.kind === 'conditional' ||
+				evaluation.kind === 'loop' ||
+				evaluation.kind === 'sequenced';
+
+			if (evaluation.kind === 'loop' && !canLowerToExpression) {
+				const { loopPath, clause, clausePath } = evaluation;
+				// The clause was already moved, and the call is visited again from the body.
+				const clauseNode =
+					clause === 'test' ? loopPath.node.test : (loopPath.node as ForStatement).update;
+				if (clauseNode !== clausePath.node) return;
+
+				if (!moveLoopClauseIntoBody(loopPath, clause)) {
+					skipCall(
+						'it is in the update of a loop with block-scoped bindings, so it cannot be moved into the loop body',
+						'placement'
+					);
+				}
+				path.skip();
+				return;
+			}
+
+			if (evaluation.kind === 'conditional' && !canLowerToExpression) {
+				skipCall(
+					'it is evaluated conditionally and its body cannot be written as an expression',
+					'placement'
+				);
+				return;
+			}
+
+			if (evaluation.kind === 'sequenced' && !canLowerToExpression) {
+				skipCall(
+					'other code of its statement runs before it, and its body cannot be written as an expression',
+					'placement'
+				);
+				return;
+			}
+
+			// Imports are read-only, so module state the function assigns to only stays
+			// reachable in its own module.
+			if (inlinableFn.filePath !== filePath) {
+				const localDeps = getFunctionLocalDeps(context, inlinableFn.key);
+				const assigned = Array.from(localDeps?.values() ?? []).find((dep) => dep.isAssigned);
+				if (assigned) {
+					skipCall(
+						`it assigns to "${assigned.name}", which is module state of its defining module and cannot be assigned through an import`,
+						'module-state'
+					);
+					return;
+				}
+			}
+
+			// Budgets keep inlining from growing the bundle without bounds. Calls beyond them
+			// stay calls, unless the function or the call is annotated `@inline(always)`.
+			const size = measureFunctionSize(context, inlinableFn);
+			const growthBytes =
+				size.bytes - generate(path.node, { compact: true, comments: false }).code.length;
+			const isAlways =
+				!!functionAnnotations.get(inlinableFn.key)?.always ||
+				getAnnotations(callSite, 'inline').some((annotation) =>
+					annotation.flags.includes('always')
+				);
+			if (!isAlways && size.nodes > maxBodySize) {
+				skipCall(
+					`its body has ${size.nodes} nodes, more than the maxBodySize of ${maxBodySize}`,
+					'max-body-size'
+				);
+				return;
+			}
+			if (!isAlways && stats.getExpansionCount(inlinableFn.key) >= maxExpansionsPerFunction) {
+				skipCall(
+					`it was inlined ${maxExpansionsPerFunction} times already, the maxExpansionsPerFunction`,
+					'max-expansions-per-function'
+				);
+				return;
+			}
+			if (!isAlways && stats.getGrowthBytes() + growthBytes > maxGrowthBytes) {
+				skipCall(
+					`inlining it would grow the output by ${growthBytes} bytes, past the maxGrowthBytes of ${maxGrowthBytes}`,
+					'max-growth-bytes'
+				);
+				return;
+			}
+
+			stats.recordExpansion(filePath, inlinableFn.key, growthBytes);
+			dependencies.add(inlinableFn.filePath);
 
 			// Save the transformed parent function.
 			const parentFunction = path.getFunctionParent();
+			inlinedCalls.push({
+				key: inlinableFn.key,
+				loc: path.node.loc,
+				caller: parentFunction,
+				growthBytes,
+			});
 			if (parentFunction) {
-				STATS.setTransformedFunction(getFunctionName(parentFunction), true);
-
 				if (!transformedFunctions.has(parentFunction)) {
 					transformedFunctions.set(parentFunction, { isPure: true });
 				}
 
 				// Flag as impure if the inlined function is not pure.
-				if (!pureFunctions.has(inlinableFn.name)) {
+				if (!isStablePure(inlinableFn.key)) {
 					transformedFunctions.set(parentFunction, { isPure: false });
-					STATS.setTransformedFunction(getFunctionName(parentFunction), false);
 				}
 			}
 
 			// Remove decorated leading comments.
 			removeDecorators(path.node);
 
-			// Create a mapping of parameter names to their argument expressions.
-			const paramMappings = new Map<string, Expression>();
-
-			inlinableFn.params.forEach((param, index) => {
-				const expression = path.node.arguments[index];
-				// Only store arguments that are actually provided
-				if (expression) {
-					paramMappings.set(param, expression as Expression);
-				}
-			});
-
-			// Transform imports
-			const inlinedImportPath = removeImportForFunction(path, inlinableFn.name);
-			addImportsForDependencies(path, inlinableFn.path, inlinableFn.name, inlinedImportPath);
+			// Transform imports. The object of a method may still be used elsewhere.
+			if (reference && reference.member === undefined) {
+				inlinedImports.add(reference.object.name);
+			}
+			const dependencyAliases = addImportsForDependencies(
+				context,
+				path,
+				inlinableFn.key,
+				(name, source) =>
+					addDiagnostic(
+						'import-rewrite',
+						`${calleeDisplayName}() was inlined, but "${name}" is imported from '${source}', which could not be resolved to rewrite the import for this module`,
+						path.node.loc,
+						calleeDisplayName
+					)
+			);
 
-			const body = getFunctionBody(inlinableFn.func);
 			const inlinedBody = cloneNode(body, true);
-			const variableNames = new Map<string, string>();
-			const uniqueSuffix = `_${uniqueCounter++}_$f`;
-			const resultName = `result_${callee.name}${uniqueSuffix}`;
+			inlinedBody.body.unshift(...parameterStatements);
+			const callLoc = path.node.loc;
+			const bodyChain = [...inlineChain, inlinableFn.key];
+			traverseFast(inlinedBody, (node) => {
+				inlineChains.set(node, bodyChain);
+				if (isIdentifier(node)) inlinedFrom.set(node, inlinableFn);
+				if (sourceMaps && !crossFileSourceMaps) node.loc = callLoc;
+			});
+			const resultName = `result_${calleeLabel}${uniqueSuffix}`;
+			const exitLabel = `exit_${calleeLabel}${uniqueSuffix}`;
 			const returnStatements: ExpressionStatement[] = [];
 
 			const virtualProgram = program(
@@ -150,18 +898,21 @@ export function inlineFunctions(ast: ParseResult<File>) {
 			/**
 			 * We use a three-pass traversal approach to preserve control flow when inlining.
 			 *
-			 * First pass: Rename local variables to avoid conflicts with the caller's scope.
-			 * This must happen before parameter substitution so that locals and params are
-			 * still distinct names — no ambiguity about what to rename.
+			 * First pass: Rename the bindings of the body to avoid conflicts with the caller's
+			 * scope. This must happen before parameter substitution so that locals and params
+			 * are still distinct names — no ambiguity about what to rename.
 			 *
 			 * Second pass: Substitute function parameters with the caller's argument
-			 * expressions, convert return statements, and normalize if statements.
+			 * expressions, replace `this`, `arguments` and `new.target` with the values of
+			 * the call, convert return statements, and normalize if statements.
 			 * Because renaming already completed, the substituted argument expressions
 			 * (which belong to the caller's scope) are never touched by the rename logic.
 			 *
 			 * Third pass: Restructure control flow
 			 * - Detect if statements with early returns (by finding result assignments)
 			 * - Transform them by moving following statements into an else block
+			 * - Returns nested in loops, switch or try instead break out of a labeled block
+			 *   around the whole body, which also runs any finally blocks on the way out
 			 *
 			 * Post: Replace the function call
 			 * - Single return: Replace call with the return expression directly
@@ -170,51 +921,76 @@ export function inlineFunctions(ast: ParseResult<File>) {
 			 * Finally: Insert the transformed statements before the original call site
 			 **/
 
-			// First pass: Rename locals. Params are still their original names so
-			// there is no ambiguity between locals and params.
+			// First pass: Rename every binding the body declares, including those of nested
+			// functions, blocks and catch clauses. Params are free names in the virtual file,
+			// so they keep their original names.
+			const renamedScopes = new Set<Scope>();
 			traverse(virtualFile, {
-				VariableDeclarator(varPath) {
-					if (isIdentifier(varPath.node.id)) {
-						const oldName = varPath.node.id.name;
-						const newName = `${oldName}${uniqueSuffix}`;
-						variableNames.set(oldName, newName);
-						varPath.node.id.name = newName;
-					}
-				},
-				Identifier(idPath) {
-					if (
-						isMemberExpression(idPath.parent) &&
-						idPath.parentKey === 'property' &&
-						!idPath.parent.computed
-					) {
-						return;
-					}
+				Scopable(scopePath) {
+					const { scope } = scopePath;
+					if (renamedScopes.has(scope)) return;
+					renamedScopes.add(scope);
 
-					if (variableNames.has(idPath.node.name)) {
-						idPath.node.name = variableNames.get(idPath.node.name)!;
+					for (const name of Object.keys(scope.bindings)) {
+						// A TypeScript `this` parameter only declares the type of `this`.
+						if (name === 'this') continue;
+						scope.rename(name, `${name}${uniqueSuffix}`);
 					}
 				},
 			});
 
-			// Second pass: Substitute params with caller's arguments, convert
-			// returns to assignments, and normalize if statements.
+			// Second pass: Substitute params with caller's arguments, bind the call's
+			// context, convert returns to assignments, and normalize if statements.
 			traverse(virtualFile, {
 				Identifier(idPath) {
+					if (isPropertyName(idPath)) return;
+
+					// Only free names refer to params; every binding of the body was renamed.
+					if (idPath.scope.hasBinding(idPath.node.name, { noGlobals: true })) return;
+
+					// The inlined function's own `arguments` is the array of its arguments.
 					if (
-						isMemberExpression(idPath.parent) &&
-						idPath.parentKey === 'property' &&
-						!idPath.parent.computed
+						idPath.node.name === 'arguments' &&
+						argumentsArray &&
+						!idPath.findParent((ancestor) => bindsOwnContext(ancestor.node))
 					) {
+						idPath.replaceWith(cloneNode(argumentsArray));
+						idPath.skip();
 						return;
 					}
 
 					const paramMapping = paramMappings.get(idPath.node.name);
 					if (paramMapping) {
+						unsetShorthand(idPath);
 						idPath.replaceWith(cloneNode(paramMapping, true));
 						idPath.skip();
+						return;
 					}
+
+					// Module-level names the caller uses for something else were imported under
+					// an alias.
+					const alias = dependencyAliases.get(idPath.node.name);
+					if (alias) {
+						unsetShorthand(idPath);
+						originalNames.set(idPath.node, idPath.node.name);
+						idPath.node.name = alias;
+					}
+				},
+				ThisExpression(thisPath) {
+					// A method called on `this` keeps it.
+					if (receiver && isThisExpression(receiver)) return;
+					if (thisPath.findParent((ancestor) => bindsOwnContext(ancestor.node))) return;
+					thisPath.replaceWith(receiver ? cloneNode(receiver) : identifier('undefined'));
+				},
+				MetaProperty(metaPath) {
+					if (!isNewTarget(metaPath.node)) return;
+					if (metaPath.findParent((ancestor) => bindsOwnContext(ancestor.node))) return;
+					metaPath.replaceWith(identifier('undefined'));
 				},
 				ReturnStatement(returnPath) {
+					// Returns of nested functions stay as they are.
+					if (returnPath.getFunctionParent()) return;
+
 					const returnExpression = expressionStatement(
 						assignmentExpression(
 							'=',
@@ -222,9 +998,24 @@ export function inlineFunctions(ast: ParseResult<File>) {
 							returnPath.node.argument || identifier('undefined')
 						)
 					);
-
-					returnPath.replaceWith(returnExpression);
 					returnStatements.push(returnExpression);
+
+					// Leave the labeled block unless this is the last statement of the body.
+					const isLastStatement =
+						returnPath.parentPath.isProgram() &&
+						returnPath.key === virtualProgram.body.length - 1;
+					if (!exitsEarly || isLastStatement) {
+						returnPath.replaceWith(returnExpression);
+					} else if (Array.isArray(returnPath.container)) {
+						returnPath.replaceWithMultiple([
+							returnExpression,
+							breakStatement(identifier(exitLabel)),
+						]);
+					} else {
+						returnPath.replaceWith(
+							blockStatement([returnExpression, breakStatement(identifier(exitLabel))])
+						);
+					}
 				},
 				IfStatement(ifPath) {
 					let consequent = ifPath.node.consequent;
@@ -243,6 +1034,9 @@ export function inlineFunctions(ast: ParseResult<File>) {
 			// Second pass: Correct control flow
 			traverse(virtualFile, {
 				IfStatement(ifPath) {
+					// Bodies that exit through a labeled block keep their structure.
+					if (exitsEarly) return;
+
 					// Transform if statements that don't have an else branch
 					// BUT only if they contain an early return
 					if (!ifPath.node.alternate) {
@@ -291,69 +1085,137 @@ export function inlineFunctions(ast: ParseResult<File>) {
 			});
 
 			/** Post: Transform return statements into variable assignments. */
-			if (returnStatements.length === 1) {
-				const lastReturnStatement = returnStatements[0];
+			let replacement: Expression | null = null;
+			const lastStatement = inlinedBody.body[inlinedBody.body.length - 1];
+			if (returnStatements.length === 1 && returnStatements[0] === lastStatement) {
 				// Remove from the inlined body.
-				const index = inlinedBody.body.indexOf(lastReturnStatement);
-				if (index !== -1) inlinedBody.body.splice(index, 1);
+				inlinedBody.body.pop();
 
 				// Replace function call with assignment of the return value to the call identifier
-				const expression =
-					(lastReturnStatement.expression as AssignmentExpression).right ||
+				replacement =
+					(lastStatement.expression as AssignmentExpression).right ||
 					identifier('undefined');
-				path.replaceWith(expression);
-			} else if (returnStatements.length > 1) {
+			} else if (returnStatements.length > 0) {
+				// Wrap the body in the block its returns break out of
+				if (exitsEarly) {
+					const statements = inlinedBody.body.splice(0);
+					inlinedBody.body.push(
+						labeledStatement(identifier(exitLabel), blockStatement(statements))
+					);
+				}
+
 				// Prepend our control variables
 				inlinedBody.body.unshift(
 					variableDeclaration('let', [variableDeclarator(identifier(resultName), null)])
 				);
 
 				// Replace the function call with our result variable
-				path.replaceWith({ type: 'Identifier', name: resultName });
+				replacement = identifier(resultName);
 			}
 
-			/** Finish: Insert our transformed code before the original call. */
-			if (inlinedBody.body.length > 0) {
-				const statementPath = path.getStatementParent();
-				if (statementPath) {
-					const inlineInfo = detectInlineIfBranch(path, statementPath);
-
-					if (inlineInfo.needsWrapping) {
-						const ifNode = inlineInfo.ifNode!;
-						const branch =
-							inlineInfo.branch === 'consequent'
-								? ifNode.consequent
-								: ifNode.alternate!;
-
-						// Wrap the branch in a block
-						if (inlineInfo.branch === 'consequent') {
-							ifNode.consequent = blockStatement([branch]);
-						} else {
-							ifNode.alternate = blockStatement([branch]);
-						}
+			// Evaluate the arguments before anything in the inlined body.
+			inlinedBody.body.unshift(...argumentStatements);
 
-						// Get the wrapped block and insert into it
-						const branchBlockPath = inlineInfo.ifPath!.get(
-							inlineInfo.branch!
-						) as NodePath<BlockStatement>;
-						const firstStmt = branchBlockPath.get('body')[0];
-						if (firstStmt) {
-							firstStmt.insertBefore(inlinedBody.body);
-							return;
-						}
-					}
-					statementPath.insertBefore(inlinedBody.body);
+			// A call that is not always evaluated exactly once keeps its body in place as a
+			// sequence expression, with only the declarations hoisted before the statement.
+			if (lowerToExpression && inlinedBody.body.length > 0) {
+				const declaredNames = inlinedBody.body.flatMap(getDeclaredNames);
+				const expressions = inlinedBody.body.map(convertStatementToExpression);
+				path.replaceWith(
+					sequenceExpression([...expressions, replacement ?? identifier('undefined')])
+				);
+				if (declaredNames.length > 0) {
+					insertBeforeStatement(path, [
+						variableDeclaration(
+							'let',
+							declaredNames.map((name) => variableDeclarator(identifier(name)))
+						),
+					]);
 				}
+				return;
 			}
 
+			if (replacement) {
+				path.replaceWith(replacement);
+			} else if (!isCallExpressionStatement) {
+				// The call has no return value, but its value is still used.
+				path.replaceWith(identifier('undefined'));
+			}
+
+			/** Finish: Insert our transformed code before the original call. */
+			const insertedBefore =
+				inlinedBody.body.length > 0
+					? insertBeforeStatement(path, inlinedBody.body)
+					: undefined;
+
 			// If there are no return statements, remove the function call after inlining
-			if (returnStatements.length === 0) path.remove();
+			if (!replacement && isCallExpressionStatement) {
+				const callStatement =
+					insertedBefore?.node === path.parent ? insertedBefore : path.parentPath!;
+				callStatement.remove();
+			}
 		},
 	});
 
+	removeUnusedImports(ast, inlinedImports);
+
 	// Remove duplicate memory access expressions if it is safe to do so
-	dedupVariables(transformedFunctions);
+	const deduplicated = dedupVariables(transformedFunctions);
+
+	const report = {
+		...moduleImports,
+		diagnostics,
+		inlinedCalls: inlinedCalls.map(({ key, loc, caller, growthBytes }): InlinedCall => {
+			const transformed = caller && transformedFunctions.get(caller);
+			return {
+				key,
+				file: getLocationFile(loc),
+				line: loc?.start.line,
+				column: loc ? loc.start.column + 1 : undefined,
+				caller: (caller && getFunctionName(caller)) || undefined,
+				callerIsPure: transformed?.isPure,
+				growthBytes,
+			};
+		}),
+		transformedFunctions: Array.from(
+			transformedFunctions,
+			([functionPath, { isPure }]): TransformedFunction => ({
+				name: getFunctionName(functionPath) || undefined,
+				line: functionPath.node.loc?.start.line,
+				isPure,
+				deduplicated: deduplicated.get(functionPath) ?? 0,
+			})
+		),
+	};
+
+	// Export the module-level names that code inlined from this module into others imports.
+	const syntheticExports = context.metadata.syntheticExports.get(filePath);
+	if (syntheticExports) {
+		ast.program.body.push(
+			exportNamedDeclaration(
+				null,
+				Array.from(syntheticExports, ([local, exported]) =>
+					exportSpecifier(identifier(local), identifier(exported))
+				)
+			)
+		);
+	}
+
+	if (!sourceMaps) {
+		return { code: generate(ast).code, map: null, dependencies: [...dependencies], ...report };
+	}
+
+	// Inlined nodes are cloned with their original location, so the generated map points
+	// back into the file that defines each @inline function.
+	const { code, map } = generate(ast, { sourceMaps: true, sourceFileName }, sourceCode);
+	if (!map) return { code, map: null, dependencies: [...dependencies], ...report };
 
-	const { code } = generate(ast);
-	return code;
+	return {
+		code,
+		map: getSourceContent
+			? attachSourcesContent(map as EncodedSourceMap, getSourceContent)
+			: (map as EncodedSourceMap),
+		dependencies: [...dependencies],
+		...report,
+	};
 }
@@ -0,0 +1,259 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { InlineContext } from './context';
+import { DiagnosticCode } from './diagnostics';
+import { InlineOutput } from './inline-functions';
+import { FunctionSize } from './stats';
+import { measureFunctionSize } from './utils/measure-function-size';
+
+/** Where to write the report of a build. A string is the path of the JSON report. */
+export type ReportOption = string | { json?: string; html?: string };
+
+/** What happened to the calls of a single module, as its transform returned it. */
+export type ModuleReport = Pick<
+	InlineOutput,
+	'diagnostics' | 'inlinedCalls' | 'transformedFunctions'
+>;
+
+export interface ReportedCallSite {
+	file: string;
+	line?: number;
+	column?: number;
+	/** Name of the function the call is in, if it has one. */
+	caller?: string;
+	/** Whether everything inlined into that function is @pure. */
+	callerIsPure?: boolean;
+	/** Bytes the body adds in place of the call. */
+	growthBytes: number;
+}
+
+export interface ReportedFunction {
+	name: string;
+	file: string;
+	/** Whether the function is marked @inline, rather than inlined at annotated call sites. */
+	inline: boolean;
+	/** Whether the `auto` option selected the function, rather than @inline. */
+	auto: boolean;
+	pure: boolean;
+	/** The size of the body, which each call site it is inlined into adds. */
+	size: FunctionSize;
+	inlinedInto: ReportedCallSite[];
+}
+
+export interface ReportedTransformedFunction {
+	file: string;
+	name?: string;
+	line?: number;
+	pure: boolean;
+	/** Repeated declarations of the same expression that were removed. */
+	deduplicated: number;
+}
+
+export interface ReportedSkippedCall {
+	code: DiagnosticCode;
+	message: string;
+	callee?: string;
+	file: string;
+	line?: number;
+	column?: number;
+}
+
+/**
+ * Everything a build inlined, and the calls it did not. Paths are relative to the project
+ * root and entries are sorted, so reports of different commits can be diffed.
+ */
+export interface InlineReport {
+	functions: ReportedFunction[];
+	transformedFunctions: ReportedTransformedFunction[];
+	/** Declarations removed by deduplication, in all functions. */
+	deduplicated: number;
+	/** Bytes inlining added, in all modules. */
+	growthBytes: number;
+	skipped: ReportedSkippedCall[];
+}
+
+function compareLocations(
+	a: { file: string; line?: number; column?: number },
+	b: { file: string; line?: number; column?: number }
+) {
+	return (
+		a.file.localeCompare(b.file) ||
+		(a.line ?? 0) - (b.line ?? 0) ||
+		(a.column ?? 0) - (b.column ?? 0)
+	);
+}
+
+/**
+ * Build the report of the modules transformed so far.
+ */
+export function createReport(
+	context: InlineContext,
+	modules: Map<string, ModuleReport>,
+	projectRoot: string
+): InlineReport {
+	const { allFunctions, inlinableFunctions, pureFunctions, autoFunctions } = context.metadata;
+	const relative = (file: string) => path.relative(projectRoot, file).replace(/\\/g, '/');
+
+	const functions = new Map<string, ReportedFunction>();
+	const getFunction = (key: string) => {
+		let reported = functions.get(key);
+		const func = inlinableFunctions.get(key) ?? allFunctions.get(key);
+		if (!reported && func) {
+			reported = {
+				name: func.name,
+				file: relative(func.filePath),
+				inline: inlinableFunctions.has(key),
+				auto: autoFunctions.has(key),
+				pure: pureFunctions.has(key),
+				size: measureFunctionSize(context, func),
+				inlinedInto: [],
+			};
+			functions.set(key, reported);
+		}
+		return reported;
+	};
+
+	// Functions that were never inlined are listed too.
+	for (const key of inlinableFunctions.keys()) getFunction(key);
+
+	const transformedFunctions: ReportedTransformedFunction[] = [];
+	const skipped: ReportedSkippedCall[] = [];
+	let growthBytes = 0;
+
+	for (const [id, module] of modules) {
+		for (const call of module.inlinedCalls) {
+			const { key, file, line, column, caller, callerIsPure } = call;
+			getFunction(key)?.inlinedInto.push({
+				file: relative(file),
+				line,
+				column,
+				caller,
+				callerIsPure,
+				growthBytes: call.growthBytes,
+			});
+			growthBytes += call.growthBytes;
+		}
+
+		for (const { name, line, isPure, deduplicated } of module.transformedFunctions) {
+			transformedFunctions.push({ file: relative(id), name, line, pure: isPure, deduplicated });
+		}
+
+		for (const { code, message, callee, file, line, column } of module.diagnostics) {
+			if (callee === undefined) continue;
+			skipped.push({ code, message, callee, file: relative(file), line, column });
+		}
+	}
+
+	const sortedFunctions = Array.from(functions.values()).sort(
+		(a, b) => a.file.localeCompare(b.file) || a.name.localeCompare(b.name)
+	);
+	for (const func of sortedFunctions) func.inlinedInto.sort(compareLocations);
+
+	return {
+		functions: sortedFunctions,
+		transformedFunctions: transformedFunctions.sort(compareLocations),
+		deduplicated: transformedFunctions.reduce((sum, func) => sum + func.deduplicated, 0),
+		growthBytes,
+		skipped: skipped.sort(compareLocations),
+	};
+}
+
+function escapeHtml(value: unknown) {
+	return String(value ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function renderTable(headings: string[], rows: unknown[][]) {
+	const head = headings.map((heading) => `<th>${escapeHtml(heading)}</th>`).join('');
+	const body = rows
+		.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+		.join('\n');
+	return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Render a report as a standalone HTML page.
+ */
+export function renderHtmlReport(report: InlineReport) {
+	const location = (site: { file: string; line?: number; column?: number }) =>
+		site.line === undefined ? site.file : `${site.file}:${site.line}:${site.column}`;
+
+	const functions = renderTable(
+		['Function', 'File', 'Kind', 'Nodes', 'Bytes', 'Inlined', 'Call sites'],
+		report.functions.map((func) => [
+			func.name,
+			func.file,
+			[
+				func.auto ? 'auto' : func.inline ? '@inline' : 'annotated call',
+				func.pure ? '@pure' : '',
+			]
+				.filter(Boolean)
+				.join(' '),
+			func.size.nodes,
+			func.size.bytes,
+			func.inlinedInto.length,
+			func.inlinedInto
+				.map(
+					(site) =>
+						`${location(site)}${site.caller ? ` in ${site.caller}` : ''}${site.callerIsPure ? ' (pure)' : ''}`
+				)
+				.join(', '),
+		])
+	);
+	const transformed = renderTable(
+		['Function', 'File', 'Pure', 'Deduplicated'],
+		report.transformedFunctions.map((func) => [
+			func.name ?? '(anonymous)',
+			location(func),
+			func.pure ? 'yes' : 'no',
+			func.deduplicated,
+		])
+	);
+	const skipped = renderTable(
+		['Call', 'Location', 'Code', 'Reason'],
+		report.skipped.map((call) => [`${call.callee}()`, location(call), call.code, call.message])
+	);
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Inline report</title>
+<style>
+body { font: 14px system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f5f5f5; }
+</style>
+</head>
+<body>
+<h1>Inline report</h1>
+<h2>Functions (${report.functions.length}, ${report.growthBytes} bytes added)</h2>
+${functions}
+<h2>Transformed functions (${report.transformedFunctions.length}, ${report.deduplicated} declarations deduplicated)</h2>
+${transformed}
+<h2>Skipped calls (${report.skipped.length})</h2>
+${skipped}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write a report to the files the `report` option names, relative to `cwd`.
+ */
+export function writeReport(report: InlineReport, option: ReportOption, cwd: string) {
+	const { json, html } = typeof option === 'string' ? { json: option, html: undefined } : option;
+
+	const write = (fileName: string, contents: string) => {
+		const filePath = path.resolve(cwd, fileName);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, contents);
+	};
+
+	if (json) write(json, `${JSON.stringify(report, null, '\t')}\n`);
+	if (html) write(html, renderHtmlReport(report));
+}
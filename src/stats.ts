@@ -1,36 +1,118 @@
-const inlinedFunctionCount = new Map<string, number>();
-const transformedFunctions = new Map<string, { isPure: boolean }>();
-
-function getInlinedFunctionCount(name: string) {
-	return inlinedFunctionCount.get(name) ?? 0;
+/** The size of a function body: its AST nodes, and its bytes when generated compactly. */
+export interface FunctionSize {
+	nodes: number;
+	bytes: number;
 }
 
-function getAllInlinedFunctionCounts() {
-	return inlinedFunctionCount.entries();
+/** What inlining into a module expanded, which counts against the inlining budgets. */
+interface ModuleExpansions {
+	counts: Map<string, number>;
+	growthBytes: number;
 }
 
-function incrementInlinedFunctionCount(name: string) {
-	inlinedFunctionCount.set(name, (inlinedFunctionCount.get(name) ?? 0) + 1);
-}
+export function createStats() {
+	const inlinedFunctionCount = new Map<string, number>();
+	const transformedFunctions = new Map<string, { isPure: boolean }>();
+	const functionSizes = new Map<string, FunctionSize>();
+	// Tracked per module, so a module that is transformed again replaces what it expanded.
+	const moduleExpansions = new Map<string, ModuleExpansions>();
+	const expansionCounts = new Map<string, number>();
+	let growthBytes = 0;
 
-function setTransformedFunction(name: string, isPure: boolean) {
-	transformedFunctions.set(name, { isPure });
-}
+	function getInlinedFunctionCount(key: string) {
+		return inlinedFunctionCount.get(key) ?? 0;
+	}
 
-function getAllTransformedFunctions() {
-	return Array.from(transformedFunctions);
-}
+	function getAllInlinedFunctionCounts() {
+		return inlinedFunctionCount.entries();
+	}
+
+	function incrementInlinedFunctionCount(key: string) {
+		inlinedFunctionCount.set(key, (inlinedFunctionCount.get(key) ?? 0) + 1);
+	}
+
+	function setTransformedFunction(name: string, isPure: boolean) {
+		transformedFunctions.set(name, { isPure });
+	}
+
+	function getAllTransformedFunctions() {
+		return Array.from(transformedFunctions);
+	}
+
+	function getFunctionSize(key: string) {
+		return functionSizes.get(key);
+	}
+
+	function setFunctionSize(key: string, size: FunctionSize) {
+		functionSizes.set(key, size);
+	}
+
+	function deleteFunctionSize(key: string) {
+		functionSizes.delete(key);
+	}
+
+	function getExpansionCount(key: string) {
+		return expansionCounts.get(key) ?? 0;
+	}
+
+	function getGrowthBytes() {
+		return growthBytes;
+	}
+
+	function resetModuleExpansions(moduleId: string) {
+		const expansions = moduleExpansions.get(moduleId);
+		if (!expansions) return;
+
+		for (const [key, count] of expansions.counts) {
+			expansionCounts.set(key, getExpansionCount(key) - count);
+		}
+		growthBytes -= expansions.growthBytes;
+		moduleExpansions.delete(moduleId);
+	}
+
+	function recordExpansion(moduleId: string, key: string, growth: number) {
+		let expansions = moduleExpansions.get(moduleId);
+		if (!expansions) {
+			expansions = { counts: new Map(), growthBytes: 0 };
+			moduleExpansions.set(moduleId, expansions);
+		}
+
+		expansions.counts.set(key, (expansions.counts.get(key) ?? 0) + 1);
+		expansions.growthBytes += growth;
+		expansionCounts.set(key, getExpansionCount(key) + 1);
+		growthBytes += growth;
+	}
+
+	/** Forget what was inlined, which every build counts anew. */
+	function resetInlinedCounts() {
+		inlinedFunctionCount.clear();
+		transformedFunctions.clear();
+	}
+
+	function reset() {
+		resetInlinedCounts();
+		functionSizes.clear();
+		moduleExpansions.clear();
+		expansionCounts.clear();
+		growthBytes = 0;
+	}
 
-function reset() {
-	inlinedFunctionCount.clear();
-	transformedFunctions.clear();
+	return {
+		getInlinedFunctionCount,
+		getAllInlinedFunctionCounts,
+		incrementInlinedFunctionCount,
+		setTransformedFunction,
+		getAllTransformedFunctions,
+		getFunctionSize,
+		setFunctionSize,
+		deleteFunctionSize,
+		getExpansionCount,
+		getGrowthBytes,
+		resetModuleExpansions,
+		recordExpansion,
+		resetInlinedCounts,
+		reset,
+	};
 }
 
-export const STATS = {
-	getInlinedFunctionCount,
-	getAllInlinedFunctionCounts,
-	incrementInlinedFunctionCount,
-	setTransformedFunction,
-	getAllTransformedFunctions,
-	reset,
-};
+export type Stats = ReturnType<typeof createStats>;
@@ -1,103 +1,182 @@
 import { NodePath } from '@babel/traverse';
-import { inlinableFunctions } from '../collect-metadata';
-import { getModuleProgram } from './get-module-program';
-import { getFunctionDependencyChain, getFunctionLocalDeps } from './collect-local-dependencies';
+import { InlineContext } from '../context';
+import { getInlinedLocalDeps } from './collect-local-dependencies';
 import { createRelativePath } from './create-relative-path';
-import { getResolutionConfig } from './resolution-config';
 import { resolveModulePath } from './resolve-module-path';
 import {
 	identifier,
 	ImportDeclaration,
 	importDeclaration,
+	importDefaultSpecifier,
+	importNamespaceSpecifier,
 	importSpecifier,
+	isIdentifier,
+	isImportDeclaration,
+	isImportDefaultSpecifier,
+	isImportNamespaceSpecifier,
+	isImportSpecifier,
+	isValidIdentifier,
+	Program,
 	stringLiteral,
 } from '@babel/types';
 
+type ImportSpecifierNode = ImportDeclaration['specifiers'][number];
+
+/** A binding of the module that defines an inlined function, as the caller can import it. */
+interface ImportTarget {
+	/** Module specifier relative to the caller, or a bare specifier. */
+	source: string;
+	/** Absolute path of the module, when it is a local file. */
+	resolvedPath?: string;
+	/** Exported name, or `default` / `*` for default and namespace imports. */
+	imported: string;
+}
+
+function getImportedName(specifier: ImportSpecifierNode): string {
+	if (isImportDefaultSpecifier(specifier)) return 'default';
+	if (isImportNamespaceSpecifier(specifier)) return '*';
+	return isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+}
+
+function createImportSpecifier(imported: string, local: string): ImportSpecifierNode {
+	if (imported === 'default') return importDefaultSpecifier(identifier(local));
+	if (imported === '*') return importNamespaceSpecifier(identifier(local));
+	return importSpecifier(
+		identifier(local),
+		isValidIdentifier(imported) ? identifier(imported) : stringLiteral(imported)
+	);
+}
+
+function resolveSource(context: InlineContext, source: string, fromPath: string) {
+	const resolutionConfig = context.resolutionConfig;
+	if (!resolutionConfig) return undefined;
+
+	const resolution = resolveModulePath(source, fromPath, {
+		projectRoot: resolutionConfig.projectRoot,
+		workspaceRoot: resolutionConfig.workspaceRoot,
+		alias: resolutionConfig.alias,
+		followPackageImports: resolutionConfig.followPackageImports,
+		resolveImport: resolutionConfig.resolveImport,
+	});
+	return resolution.resolved && resolution.isLocal ? resolution.resolved : undefined;
+}
+
+/**
+ * Find an import of the target in the caller's module whose local name still refers to that
+ * import at the call site.
+ */
+function findExistingImport(
+	context: InlineContext,
+	path: NodePath,
+	program: Program,
+	currentPath: string,
+	target: ImportTarget
+): string | undefined {
+	for (const node of program.body) {
+		// Type-only imports are erased, e.g. those of a class used to annotate a receiver.
+		if (!isImportDeclaration(node) || node.importKind === 'type') continue;
+
+		const isSameSource =
+			node.source.value === target.source ||
+			(!!target.resolvedPath &&
+				resolveSource(context, node.source.value, currentPath) === target.resolvedPath);
+		if (!isSameSource) continue;
+
+		for (const specifier of node.specifiers) {
+			if (getImportedName(specifier) !== target.imported) continue;
+			if (isImportSpecifier(specifier) && specifier.importKind === 'type') continue;
+
+			const binding = path.scope.getBinding(specifier.local.name);
+			if (!binding || binding.path.node === specifier) return specifier.local.name;
+		}
+	}
+}
+
+/**
+ * Add imports for the module-level names an inlined function and the @inline functions it
+ * calls refer to, to the module it is inlined into. Returns the names that had to be imported under a fresh alias, because the
+ * caller already uses them for something else; references in the inlined copy must be
+ * renamed to match, so they keep referring to the binding they did in their home module.
+ * Relative imports of the home module that cannot be resolved are copied as they are, and
+ * passed to `onUnresolvedImport`, as they only work if both modules are in one directory.
+ */
 export function addImportsForDependencies(
+	context: InlineContext,
 	path: NodePath,
-	inlinePath: NodePath,
-	name: string,
-	inlinedImportPath?: string
-) {
-	const moduleProgram = getModuleProgram(path);
-	const localDeps = getFunctionLocalDeps(name);
-	const dependencyChain = getFunctionDependencyChain(name);
-	const resolutionConfig = getResolutionConfig();
-
-	if (localDeps && localDeps.size > 0 && moduleProgram) {
-		for (const [depName, dep] of localDeps) {
-			const currentPath = path.node.loc?.filename;
-			const importPath = dep.fullPath;
-			if (!importPath || !currentPath) continue;
-
-			// Check if the import already exists in the file where transformed code is.
-			const importExists = moduleProgram.body.some(
-				(node) =>
-					node.type === 'ImportDeclaration' &&
-					node.specifiers.some((spec) => spec.local.name === depName)
-			);
+	key: string,
+	onUnresolvedImport?: (name: string, source: string) => void
+): Map<string, string> {
+	const aliases = new Map<string, string>();
+	const localDeps = getInlinedLocalDeps(context, key);
+	const programPath = path.scope.getProgramParent().path as NodePath<Program>;
+	const currentPath = programPath.node.loc?.filename;
 
-			if (importExists) continue;
+	if (!currentPath) return aliases;
 
-			// Check if the import already exists in the file where the inlined function is.
-			const inlinedModuleProgram = getModuleProgram(inlinePath);
-			const inlinedImportExists = inlinedModuleProgram?.body.some(
-				(node) =>
-					node.type === 'ImportDeclaration' &&
-					node.specifiers.some((spec) => spec.local.name === depName)
-			);
+	for (const [depName, dep] of localDeps) {
+		const importPath = dep.fullPath;
+		if (!importPath) continue;
+
+		// Inlined into its home module, where the name only needs to stay visible.
+		if (importPath === currentPath) {
+			const binding = path.scope.getBinding(depName);
+			if (binding && !binding.scope.path.isProgram()) binding.scope.rename(depName);
+			continue;
+		}
 
-			let relativePath: string;
+		// Calls of @inline functions that assign to module state stay calls in other modules.
+		if (dep.isAssigned && !dep.exportedName && !isImportDeclaration(dep.declaration)) continue;
 
-			if (inlinedImportExists) {
-				const inlinedImport = inlinedModuleProgram?.body.find(
-					(node) =>
-						node.type === 'ImportDeclaration' &&
-						node.specifiers.some((spec) => spec.local.name === depName)
-				) as ImportDeclaration;
-
-				// Get the actual source file location of the inlined function
-				const sourceFilePath = inlinePath.node.loc?.filename;
-
-				if (sourceFilePath && resolutionConfig) {
-					const resolution = resolveModulePath(inlinedImport.source.value, sourceFilePath, {
-						projectRoot: resolutionConfig.projectRoot,
-						workspaceRoot: resolutionConfig.workspaceRoot,
-						alias: resolutionConfig.alias,
-						followPackageImports: resolutionConfig.followPackageImports,
-						resolveImport: resolutionConfig.resolveImport,
-					});
-
-					if (resolution.resolved && resolution.isLocal) {
-						// Compute the relative path from the current file to the resolved dependency
-						relativePath = createRelativePath(currentPath, resolution.resolved);
-					} else {
-						relativePath = inlinedImport.source.value;
-					}
-				} else {
-					relativePath = inlinedImport.source.value;
-				}
-			} else {
-				relativePath = createRelativePath(currentPath, importPath);
+		// Imports of the home module are imported from the same source; other module-level
+		// bindings from the home module itself, under the name it exports them as.
+		let target: ImportTarget;
+		const specifier = dep.binding.path.node as ImportSpecifierNode;
+		const declaration = dep.declaration;
+		if (isImportDeclaration(declaration)) {
+			const resolvedPath = resolveSource(context, declaration.source.value, importPath);
+			if (!resolvedPath && declaration.source.value.startsWith('.')) {
+				onUnresolvedImport?.(depName, declaration.source.value);
 			}
+			target = {
+				source: resolvedPath
+					? createRelativePath(currentPath, resolvedPath)
+					: declaration.source.value,
+				resolvedPath,
+				imported: getImportedName(specifier),
+			};
+		} else {
+			target = {
+				source: createRelativePath(currentPath, importPath),
+				resolvedPath: importPath,
+				imported: dep.exportedName ?? depName,
+			};
+		}
 
-			// Create an import declaration for each local dependency and add it to the program.
-			const importDecl = importDeclaration(
-				[importSpecifier(identifier(depName), identifier(depName))],
-				stringLiteral(relativePath)
-			);
+		let local = findExistingImport(context, path, programPath.node, currentPath, target);
+
+		if (!local) {
+			const isTaken =
+				path.scope.hasBinding(depName, { noGlobals: true }) ||
+				programPath.node.body.some(
+					(node) =>
+						isImportDeclaration(node) &&
+						node.specifiers.some((spec) => spec.local.name === depName)
+				);
+			local = isTaken ? programPath.scope.generateUid(depName) : depName;
 
 			// Insert at the start of the program.
-			moduleProgram.body.unshift(importDecl);
+			const [importDeclarationPath] = programPath.unshiftContainer(
+				'body',
+				importDeclaration(
+					[createImportSpecifier(target.imported, local)],
+					stringLiteral(target.source)
+				)
+			);
+			programPath.scope.registerDeclaration(importDeclarationPath);
 		}
-	}
 
-	if (dependencyChain.size > 0) {
-		for (const funcName of dependencyChain) {
-			// Get the actual path for the nested inlined function, not the parent's path
-			const nestedFunc = inlinableFunctions.get(funcName);
-			const nestedInlinePath = nestedFunc?.path ?? inlinePath;
-			addImportsForDependencies(path, nestedInlinePath, funcName, inlinedImportPath);
-		}
+		if (local !== depName) aliases.set(depName, local);
 	}
+
+	return aliases;
 }
@@ -0,0 +1,249 @@
+import {
+	arrayExpression,
+	arrayPattern,
+	ArgumentPlaceholder,
+	binaryExpression,
+	cloneNode,
+	conditionalExpression,
+	Expression,
+	expressionStatement,
+	FunctionParameter,
+	getBindingIdentifiers,
+	Identifier,
+	identifier,
+	isAssignmentPattern,
+	isIdentifier,
+	isLiteral,
+	isPattern,
+	isRestElement,
+	isSpreadElement,
+	isThisExpression,
+	isVoidPattern,
+	LVal,
+	Node,
+	SpreadElement,
+	Statement,
+	traverseFast,
+	variableDeclaration,
+	variableDeclarator,
+} from '@babel/types';
+import { isTrivialArgument } from './is-trivial-argument';
+
+export interface ArgumentBindings {
+	/** Parameters that are replaced by an argument expression or its temporary. */
+	paramMappings: Map<string, Expression>;
+	/** Evaluate the arguments, in call order, before anything in the inlined body. */
+	argumentStatements: Statement[];
+	/** Bind defaults, destructuring and spread arguments at the start of the inlined body. */
+	parameterStatements: Statement[];
+	/** Array of all arguments that stands in for `arguments`, when the body uses it. */
+	argumentsArray?: Identifier;
+}
+
+interface BindArgumentsOptions {
+	/** Names assigned in the inlined body, whose parameters need a `let` of their own. */
+	assignedNames: Set<string>;
+	/** Names read in functions nested in the inlined body, which may run after the call. */
+	closureNames: Set<string>;
+	/** Substitute member chains directly, which is only safe for @pure functions. */
+	allowMemberChains: boolean;
+	/** Collect the arguments in an array, for bodies that refer to `arguments`. */
+	collectArguments?: boolean;
+	/** Whether a name at the call site is a `const` binding, which no argument can change. */
+	isConstantBinding: (name: string) => boolean;
+	/** Whether a name at the call site is a binding that is never assigned after it is declared. */
+	isUnchangedBinding: (name: string) => boolean;
+	uniqueSuffix: string;
+}
+
+/**
+ * Clone a parameter for use in a declaration. Type annotations and `?` are only valid in
+ * parameter lists.
+ */
+function toDeclarationTarget<T extends Node>(param: T): T {
+	const target = cloneNode(param, true);
+	traverseFast(target, (node) => {
+		if (!isIdentifier(node) && !isPattern(node) && !isRestElement(node)) return;
+		if ('typeAnnotation' in node) node.typeAnnotation = null;
+		if ('optional' in node) node.optional = null;
+	});
+	return target;
+}
+
+/**
+ * Work out how the arguments of a call bind to the parameters of an inlined function.
+ * Plain identifier parameters are substituted, as before. Defaults, destructuring and rest
+ * parameters are declared at the start of the body, where they are renamed with its other
+ * locals; parameters that receive a spread argument are destructured from an array of the
+ * remaining arguments, which binds them the same way a call would.
+ */
+export function bindArguments(
+	params: FunctionParameter[],
+	args: Array<Expression | SpreadElement | ArgumentPlaceholder>,
+	options: BindArgumentsOptions
+): ArgumentBindings {
+	const {
+		assignedNames,
+		closureNames,
+		allowMemberChains,
+		collectArguments,
+		isConstantBinding,
+		isUnchangedBinding,
+		uniqueSuffix,
+	} = options;
+	const paramMappings = new Map<string, Expression>();
+	const argumentStatements: Statement[] = [];
+	const parameterStatements: Statement[] = [];
+
+	const isAssigned = (target: Node) =>
+		Object.keys(getBindingIdentifiers(target)).some((name) => assignedNames.has(name));
+
+	const storeArgument = (name: string, expression: Expression, kind: 'let' | 'const') => {
+		const tempName = `${name}_arg${uniqueSuffix}`;
+		argumentStatements.push(
+			variableDeclaration(kind, [variableDeclarator(identifier(tempName), expression)])
+		);
+		return identifier(tempName);
+	};
+
+	const declareParameter = (target: Node, init: Expression) => {
+		parameterStatements.push(
+			variableDeclaration(isAssigned(target) ? 'let' : 'const', [
+				variableDeclarator(toDeclarationTarget(target) as LVal, init),
+			])
+		);
+	};
+
+	// `arguments` holds every argument, so all parameters are destructured from it.
+	if (collectArguments) {
+		const argumentsArray = storeArgument(
+			'arguments',
+			arrayExpression(args as Array<Expression | SpreadElement>),
+			'const'
+		);
+		if (params.length > 0) declareParameter(arrayPattern(params), cloneNode(argumentsArray));
+		return { paramMappings, argumentStatements, parameterStatements, argumentsArray };
+	}
+
+	// Parameters from the first rest parameter or spread argument on are bound together.
+	const spreadIndex = args.findIndex((argument) => isSpreadElement(argument));
+	const restIndex = params.findIndex((param) => isRestElement(param));
+	const remainingIndex = Math.min(
+		spreadIndex === -1 ? Infinity : spreadIndex,
+		restIndex === -1 ? Infinity : restIndex
+	);
+	const positionalCount = Math.min(params.length, remainingIndex);
+
+	// Arguments before the last one that runs code are read before it, so any that it could
+	// change are stored too. Only literals, `this` and `const` bindings are left to substitute.
+	const lastEvaluatedIndex = args.findLastIndex(
+		(argument) => isSpreadElement(argument) || !isTrivialArgument(argument, allowMemberChains)
+	);
+	const isConstantArgument = (node: Expression) =>
+		isIdentifier(node) ? isConstantBinding(node.name) : isTrivialArgument(node);
+	// A substituted argument is read wherever the body reads its parameter. Only literals
+	// read the same in nested functions, which can run long after the call, and variables
+	// read the same later on only if nothing assigns to them.
+	const isSubstitutable = (name: string, node: Expression) =>
+		isTrivialArgument(node, allowMemberChains) &&
+		(!closureNames.has(name) ||
+			(isTrivialArgument(node) && !isIdentifier(node) && !isThisExpression(node))) &&
+		(!isIdentifier(node) || isUnchangedBinding(node.name));
+
+	for (let index = 0; index < positionalCount; index++) {
+		const param = params[index];
+		const argument = args[index] as Expression | undefined;
+		const defaultValue = isAssignmentPattern(param) ? param.right : undefined;
+		const target = isAssignmentPattern(param) ? param.left : param;
+
+		if (isVoidPattern(target)) {
+			if (argument && !isTrivialArgument(argument, true)) {
+				argumentStatements.push(expressionStatement(argument));
+			}
+			continue;
+		}
+
+		// The value of the parameter, when it is known without checking for undefined.
+		let value: Expression | undefined;
+		if (!defaultValue) value = argument ?? identifier('undefined');
+		else if (argument && isLiteral(argument)) value = argument;
+		else if (!argument && isLiteral(defaultValue) && isTrivialArgument(defaultValue)) {
+			value = defaultValue;
+		}
+
+		if (isIdentifier(target) && value) {
+			const assigned = assignedNames.has(target.name);
+			const isReadEarly = index < lastEvaluatedIndex && !isConstantArgument(value);
+			if (!assigned && !isReadEarly && isSubstitutable(target.name, value)) {
+				paramMappings.set(target.name, value);
+			} else {
+				paramMappings.set(
+					target.name,
+					storeArgument(target.name, value, assigned ? 'let' : 'const')
+				);
+			}
+			continue;
+		}
+
+		// Defaults only run when the argument is undefined, so they stay in the body.
+		const name = isIdentifier(target) ? target.name : `param${index}`;
+		const stored = argument && storeArgument(name, argument, 'const');
+		// The default is cloned, as the inlined body is renamed and substituted in place.
+		if (!stored) {
+			declareParameter(
+				target,
+				defaultValue ? cloneNode(defaultValue, true) : identifier('undefined')
+			);
+		} else if (!defaultValue) {
+			declareParameter(target, stored);
+		} else {
+			declareParameter(
+				target,
+				conditionalExpression(
+					binaryExpression('===', cloneNode(stored), identifier('undefined')),
+					cloneNode(defaultValue, true),
+					cloneNode(stored)
+				)
+			);
+		}
+	}
+
+	if (remainingIndex < params.length) {
+		const remainingParams = params.slice(remainingIndex);
+		const remainingArgs = args.slice(remainingIndex) as Array<Expression | SpreadElement>;
+		const [restParam] = remainingParams;
+
+		if (
+			remainingParams.length === 1 &&
+			isRestElement(restParam) &&
+			isIdentifier(restParam.argument)
+		) {
+			// A rest parameter is a fresh array of the remaining arguments.
+			const { name } = restParam.argument;
+			paramMappings.set(
+				name,
+				storeArgument(
+					name,
+					arrayExpression(remainingArgs),
+					assignedNames.has(name) ? 'let' : 'const'
+				)
+			);
+		} else {
+			declareParameter(
+				arrayPattern(remainingParams),
+				storeArgument('args', arrayExpression(remainingArgs), 'const')
+			);
+		}
+	} else {
+		// Extra arguments are still evaluated for their side effects.
+		for (const argument of args.slice(params.length)) {
+			if (isSpreadElement(argument)) {
+				argumentStatements.push(expressionStatement(arrayExpression([argument])));
+			} else if (!isTrivialArgument(argument, true)) {
+				argumentStatements.push(expressionStatement(argument as Expression));
+			}
+		}
+	}
+
+	return { paramMappings, argumentStatements, parameterStatements };
+}
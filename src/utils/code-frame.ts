@@ -0,0 +1,29 @@
+/**
+ * Render the lines of `source` around a 1-based line and column, marking the line with `>`
+ * and the column with `^` like Babel's code frames.
+ */
+export function createCodeFrame(source: string, line: number, column: number, linesAround = 2) {
+	const lines = source.split(/\r?\n/);
+	if (line < 1 || line > lines.length) return undefined;
+
+	const start = Math.max(1, line - linesAround);
+	const end = Math.min(lines.length, line + linesAround);
+	const width = String(end).length;
+	const frame: string[] = [];
+
+	for (let number = start; number <= end; number++) {
+		const text = lines[number - 1];
+		const isMarked = number === line;
+		frame.push(
+			`${isMarked ? '>' : ' '} ${String(number).padStart(width)} |${text ? ` ${text}` : ''}`
+		);
+
+		if (isMarked) {
+			// Tabs are kept so the caret lines up with the code above it.
+			const indent = text.slice(0, column - 1).replace(/[^\t]/g, ' ');
+			frame.push(`  ${' '.repeat(width)} | ${indent}^`);
+		}
+	}
+
+	return frame.join('\n');
+}
@@ -1,42 +1,105 @@
 import { Binding, NodePath } from '@babel/traverse';
-import { Function, FunctionDeclaration, isIdentifier, Node, VariableDeclarator } from '@babel/types';
+import {
+	Function,
+	isBinding,
+	isClassDeclaration,
+	isFunctionDeclaration,
+	isIdentifier,
+	isReferenced,
+	Node,
+} from '@babel/types';
 import { getFunctionName, getFunctionNameFromDeclaration } from './get-function-name';
-import { inlinableFunctions } from '../collect-metadata';
+import { InlineContext } from '../context';
+import { getCalleeReference, resolveCalledFunction } from './resolve-function';
+import { resolveInstanceMember } from './resolve-instance-member';
 
-type LocalDependency = {
+export type LocalDependency = {
 	name: string;
 	declaration: Node;
 	binding: Binding;
 	fullPath: string;
 	dependencies?: Set<string>;
+	/** Whether the function assigns to the binding, which an import of it cannot do. */
+	isAssigned: boolean;
+	/** Name the defining module exports the binding under, see `collectSyntheticExports`. */
+	exportedName?: string;
 };
 
-const functionLocalDeps = new Map<string, Map<string, LocalDependency>>();
-const functionDependencyChains = new Map<string, Set<string>>();
+export interface FunctionDependencies {
+	localDeps: Map<string, Map<string, LocalDependency>>;
+	dependencyChains: Map<string, Set<string>>;
+}
 
-export function getFunctionLocalDeps(name: string) {
-	return functionLocalDeps.get(name);
+export function createFunctionDependencies(): FunctionDependencies {
+	return { localDeps: new Map(), dependencyChains: new Map() };
 }
 
-export function getFunctionDependencyChain(name: string) {
-	return functionDependencyChains.get(name) || new Set<string>();
+export function getFunctionLocalDeps(context: InlineContext, key: string) {
+	return context.dependencies.localDeps.get(key);
 }
 
-export function collectLocalDependencies(path: NodePath<FunctionDeclaration | VariableDeclarator>) {
-	const name = getFunctionNameFromDeclaration(path);
-	if (!name) return;
+/**
+ * The module-level bindings an inlined copy of a function can end up referring to: its own,
+ * then those of the @inline functions it calls, as their calls are inlined into the copy.
+ * A binding of a called function is left out when the function's own deps use its name.
+ */
+export function getInlinedLocalDeps(context: InlineContext, key: string) {
+	const localDeps = new Map(getFunctionLocalDeps(context, key));
+	const visited = new Set([key]);
+	const queue = Array.from(getFunctionDependencyChain(context, key));
+
+	for (let calleeKey = queue.shift(); calleeKey !== undefined; calleeKey = queue.shift()) {
+		if (visited.has(calleeKey)) continue;
+		visited.add(calleeKey);
+
+		for (const [name, dep] of getFunctionLocalDeps(context, calleeKey) ?? []) {
+			if (!localDeps.has(name)) localDeps.set(name, dep);
+		}
+		queue.push(...getFunctionDependencyChain(context, calleeKey));
+	}
+
+	return localDeps;
+}
+
+export function getFunctionDependencyChain(context: InlineContext, key: string) {
+	return context.dependencies.dependencyChains.get(key) || new Set<string>();
+}
+
+export function removeFunctionDependencies(context: InlineContext, key: string) {
+	context.dependencies.localDeps.delete(key);
+	context.dependencies.dependencyChains.delete(key);
+}
+
+export function resetFunctionDependencies(dependencies: FunctionDependencies) {
+	dependencies.localDeps.clear();
+	dependencies.dependencyChains.clear();
+}
+
+export function collectLocalDependencies(context: InlineContext, key: string, path: NodePath) {
+	// A method is referred to through its object, which is a dependency like any other.
+	const name =
+		path.isFunctionDeclaration() || path.isVariableDeclarator()
+			? getFunctionNameFromDeclaration(path)
+			: undefined;
 
 	const localDeps = new Map<string, LocalDependency>();
 
 	// Traverse the function body to find all local dependencies.
 	path.traverse({
 		Identifier(idPath) {
-			// Skip if this is the function name itself.
-			if (idPath.node.name === name) return;
-
 			// Skip if this identifier is already collected.
 			if (localDeps.has(idPath.node.name)) return;
 
+			// Skip property names and object keys, which only share the name.
+			const { node, parent } = idPath;
+			const grandparent = idPath.parentPath?.parent;
+			const isReference = isReferenced(node, parent, grandparent);
+			if (!isReference && !isBinding(node, parent, grandparent)) return;
+
+			// Skip the function's own name where it is declared. Where it recurses, the call is
+			// left in place when inlining, so it needs the function like any other dependency.
+			if (node.name === name && !isReference) return;
+
 			// Find the binding for this identifier.
 			const binding = idPath.scope.getBinding(idPath.node.name);
 			if (!binding) return;
@@ -53,10 +116,13 @@ export function collectLocalDependencies(path: NodePath<FunctionDeclaration | Va
 
 			if (!isModuleScope && !isImport) return;
 
+			// Module-level constants, variables, helper functions and classes.
 			const declaration = binding.path.node;
-			if (!isImport && declaration.type !== 'VariableDeclarator') return;
+			const isDeclaration =
+				isFunctionDeclaration(declaration) || isClassDeclaration(declaration);
+			if (!isImport && !isDeclaration && declaration.type !== 'VariableDeclarator') return;
 
-			const parentDeclaration = binding.path.parentPath?.node;
+			const parentDeclaration = isDeclaration ? declaration : binding.path.parentPath?.node;
 			if (!parentDeclaration) return;
 
 			localDeps.set(idPath.node.name, {
@@ -65,11 +131,14 @@ export function collectLocalDependencies(path: NodePath<FunctionDeclaration | Va
 				binding: binding,
 				dependencies: collectTransitiveDependencies(binding.path),
 				fullPath: binding.path.node.loc?.filename || '',
+				isAssigned: binding.constantViolations.some((violation) =>
+					violation.isDescendant(path)
+				),
 			});
 		},
 	});
 
-	functionLocalDeps.set(name, localDeps);
+	context.dependencies.localDeps.set(key, localDeps);
 }
 
 function collectTransitiveDependencies(path: NodePath): Set<string> {
@@ -88,18 +157,112 @@ function collectTransitiveDependencies(path: NodePath): Set<string> {
 	return deps;
 }
 
-export function collectDependencyChain(name: string, path: NodePath) {
+export function collectDependencyChain(context: InlineContext, key: string, path: NodePath) {
+	const filePath = context.metadata.inlinableFunctions.get(key)?.filePath;
+	if (!filePath) return;
+
+	// Rebuilt from scratch so re-collecting a changed file drops stale entries.
+	const dependencyChain = new Set<string>();
+
 	path.traverse({
 		CallExpression(callPath) {
-			const node = callPath.node;
-			const callee = node.callee;
-			if (!isIdentifier(callee)) return;
-
-			if (inlinableFunctions.has(callee.name)) {
-				const dependencyChain = getFunctionDependencyChain(name);
-				dependencyChain.add(callee.name);
-				functionDependencyChains.set(name, dependencyChain);
+			const callee = callPath.get('callee');
+			const reference = getCalleeReference(callee.node);
+
+			const calleeKey = reference
+				? resolveCalledFunction(
+						context,
+						filePath,
+						reference.object.name,
+						callPath.scope,
+						reference.member
+					)
+				: callee.isMemberExpression()
+					? resolveInstanceMember(callee, (object, scope, member) =>
+							resolveCalledFunction(context, filePath, object.name, scope, member)
+						)
+					: undefined;
+			if (calleeKey && context.metadata.inlinableFunctions.has(calleeKey)) {
+				dependencyChain.add(calleeKey);
 			}
 		},
 	});
+
+	if (dependencyChain.size > 0) {
+		context.dependencies.dependencyChains.set(key, dependencyChain);
+	} else {
+		context.dependencies.dependencyChains.delete(key);
+	}
+}
+
+/**
+ * Find the @inline functions that end up calling themselves, directly or through other @inline
+ * functions. Each cycle is a path of function keys that starts and ends with the same function,
+ * and every group of mutually recursive functions is part of at least one of them.
+ */
+export function findDependencyCycles(context: InlineContext): string[][] {
+	const { dependencyChains } = context.dependencies;
+	const cycles: string[][] = [];
+	const seen = new Set<string>();
+	const visited = new Set<string>();
+	const stack: string[] = [];
+
+	const visit = (key: string) => {
+		visited.add(key);
+		stack.push(key);
+
+		for (const calleeKey of getFunctionDependencyChain(context, key)) {
+			const index = stack.indexOf(calleeKey);
+			if (index !== -1) {
+				const cycle = [...stack.slice(index), calleeKey];
+				// The same functions form one cycle, whichever of them it is entered from.
+				const id = cycle.slice(1).sort().join('\0');
+				if (!seen.has(id)) {
+					seen.add(id);
+					cycles.push(cycle);
+				}
+			} else if (!visited.has(calleeKey)) {
+				visit(calleeKey);
+			}
+		}
+
+		stack.pop();
+	};
+
+	for (const key of dependencyChains.keys()) {
+		if (!visited.has(key)) visit(key);
+	}
+
+	return cycles;
+}
+
+/**
+ * Find the @inline @pure functions with side effects that are visible in their metadata:
+ * assignments to module state and calls of @inline functions that are not @pure. Returns
+ * what makes each of them impure, by function key.
+ */
+export function findPurityConflicts(context: InlineContext): Map<string, string> {
+	const { inlinableFunctions, pureFunctions } = context.metadata;
+	const conflicts = new Map<string, string>();
+
+	for (const key of pureFunctions) {
+		if (!inlinableFunctions.has(key)) continue;
+
+		const localDeps = Array.from(getFunctionLocalDeps(context, key)?.values() ?? []);
+		const assigned = localDeps.find((dep) => dep.isAssigned);
+		if (assigned) {
+			conflicts.set(key, `it assigns to the module-level "${assigned.name}"`);
+			continue;
+		}
+
+		const impureKey = Array.from(getFunctionDependencyChain(context, key)).find(
+			(calleeKey) => !pureFunctions.has(calleeKey)
+		);
+		if (impureKey) {
+			const name = inlinableFunctions.get(impureKey)?.name ?? impureKey;
+			conflicts.set(key, `it calls ${name}, which is @inline but not @pure`);
+		}
+	}
+
+	return conflicts;
 }
@@ -2,27 +2,82 @@ import {
 	assignmentExpression,
 	conditionalExpression,
 	Expression,
+	getBindingIdentifiers,
 	identifier,
 	isBlockStatement,
+	isEmptyStatement,
 	isExpressionStatement,
-	isIdentifier,
 	isIfStatement,
 	isReturnStatement,
 	isVariableDeclaration,
+	LVal,
 	numericLiteral,
 	sequenceExpression,
 	Statement,
 	unaryExpression,
 } from '@babel/types';
 
-export function convertStatementToExpression(
-	statement: Statement,
-	resultName: string,
-	suffix: string,
-	localVars: Set<string>
-): Expression {
-	const rest = [resultName, suffix, localVars] as [string, string, Set<string>];
+function voidExpression() {
+	return unaryExpression('void', numericLiteral(0));
+}
 
+/**
+ * Check if a statement can be rewritten by `convertStatementToExpression`. Return statements
+ * count as convertible because the inliner turns them into result assignments first.
+ */
+export function canConvertStatementToExpression(statement: Statement): boolean {
+	if (
+		isExpressionStatement(statement) ||
+		isEmptyStatement(statement) ||
+		isReturnStatement(statement) ||
+		isVariableDeclaration(statement)
+	) {
+		return true;
+	}
+
+	if (isBlockStatement(statement)) {
+		return statement.body.every(canConvertStatementToExpression);
+	}
+
+	if (isIfStatement(statement)) {
+		return (
+			canConvertStatementToExpression(statement.consequent) &&
+			(!statement.alternate || canConvertStatementToExpression(statement.alternate))
+		);
+	}
+
+	return false;
+}
+
+/**
+ * Collect the names a statement declares, including those of nested blocks. Converting the
+ * statement to an expression turns its declarations into assignments, so these names have
+ * to be declared up front.
+ */
+export function getDeclaredNames(statement: Statement): string[] {
+	if (isVariableDeclaration(statement)) {
+		return Object.keys(getBindingIdentifiers(statement));
+	}
+
+	if (isBlockStatement(statement)) {
+		return statement.body.flatMap(getDeclaredNames);
+	}
+
+	if (isIfStatement(statement)) {
+		return [
+			...getDeclaredNames(statement.consequent),
+			...(statement.alternate ? getDeclaredNames(statement.alternate) : []),
+		];
+	}
+
+	return [];
+}
+
+/**
+ * Rewrite a statement as an expression with the same effects, so it can run inside a
+ * short-circuiting or conditional expression.
+ */
+export function convertStatementToExpression(statement: Statement): Expression {
 	// If it's already an ExpressionStatement, return its expression
 	if (isExpressionStatement(statement)) {
 		return statement.expression;
@@ -30,52 +85,38 @@ export function convertStatementToExpression(
 
 	// For blocks, convert to sequence expression
 	if (isBlockStatement(statement)) {
-		return sequenceExpression(
-			statement.body.map((stmt) => convertStatementToExpression(stmt, ...rest))
-		);
+		const expressions = statement.body
+			.filter((stmt) => !isEmptyStatement(stmt))
+			.map(convertStatementToExpression);
+		if (expressions.length === 0) return voidExpression();
+		return expressions.length === 1 ? expressions[0] : sequenceExpression(expressions);
 	}
 
 	// For if statements, convert to conditional expression
 	if (isIfStatement(statement)) {
 		return conditionalExpression(
 			statement.test,
-			convertStatementToExpression(statement.consequent, ...rest),
-			statement.alternate
-				? convertStatementToExpression(statement.alternate, ...rest)
-				: identifier('undefined')
+			convertStatementToExpression(statement.consequent),
+			statement.alternate ? convertStatementToExpression(statement.alternate) : voidExpression()
 		);
 	}
 
-	if (isReturnStatement(statement)) {
-		let argument = statement.argument;
-
-		if (isIdentifier(argument) && localVars.has(argument.name)) {
-			argument = identifier(argument.name + suffix);
-		}
-
-		return sequenceExpression([
-			assignmentExpression('=', identifier(resultName), argument || identifier('undefined')),
-		]);
-	}
-
+	// Declarations become assignments; `let` and `const` without an initializer reset to
+	// undefined, just as redeclaring them would.
 	if (isVariableDeclaration(statement)) {
-		return sequenceExpression(
-			statement.declarations.map((declaration) => {
-				let id = declaration.id;
-
-				if (isIdentifier(declaration.id) && localVars.has(declaration.id.name)) {
-					id = identifier(declaration.id.name + suffix);
-				}
-
-				return assignmentExpression(
+		const assignments = statement.declarations
+			.filter((declaration) => declaration.init || statement.kind !== 'var')
+			.map((declaration) =>
+				assignmentExpression(
 					'=',
-					id,
-					declaration.init || identifier('undeficonstned')
-				);
-			})
-		);
+					declaration.id as LVal,
+					declaration.init || identifier('undefined')
+				)
+			);
+		if (assignments.length === 0) return voidExpression();
+		return assignments.length === 1 ? assignments[0] : sequenceExpression(assignments);
 	}
 
 	// Default case - wrap in void operator if we can't convert
-	return unaryExpression('void', numericLiteral(0));
+	return voidExpression();
 }
@@ -1,8 +1,9 @@
 import _traverse from '@babel/traverse';
+import { SourceLocation } from '@babel/types';
 import chalk from 'chalk';
 import fg from 'fast-glob';
 import path from 'node:path';
-import { inlinableFunctions, pureFunctions } from '../collect-metadata';
+import { InlineContext } from '../context';
 import { getBabelDefaultExport } from './babel-exports';
 import { hasInlineDecorator } from './decorator-utils';
 
@@ -148,27 +149,47 @@ export function logMetadataCollectionForFile(
 /**
  * Log metadata collection summary.
  */
-export function logMetadataCollectionSummary(filesArray: string[], debug: DebugOption): void {
+export function logMetadataCollectionSummary(
+	context: InlineContext,
+	filesArray: string[],
+	debug: DebugOption
+): void {
 	if (!isDebugEnabled(debug)) return;
 
-	const totalInlineFunctions = inlinableFunctions.size;
+	const { allFunctions, inlinableFunctions, pureFunctions, autoFunctions } = context.metadata;
+	const totalInlineFunctions = inlinableFunctions.size - autoFunctions.size;
 	const totalPureFunctions = pureFunctions.size;
+	const autoInfo = autoFunctions.size > 0 ? `, ${autoFunctions.size} selected by auto,` : '';
 
-	// Collect all inline function names
-	const inlineFunctionNames = Array.from(inlinableFunctions.keys()).sort();
+	// Collect all inline function names, and those selected by `auto`
+	const inlineFunctionNames = new Set(
+		Array.from(inlinableFunctions.values())
+			.filter((func) => !autoFunctions.has(func.key))
+			.map((func) => func.name)
+	);
+	const autoFunctionNames = new Set(
+		Array.from(autoFunctions, (key) => inlinableFunctions.get(key)?.name)
+	);
 
 	// Collect all pure function names
-	const pureFunctionNames = Array.from(pureFunctions).sort();
+	const pureFunctionNames = new Set(
+		Array.from(
+			pureFunctions,
+			(key) => (inlinableFunctions.get(key) ?? allFunctions.get(key))?.name
+		)
+	);
 
 	// Collect all function names (both inline and pure)
 	const allFunctionNames = Array.from(
-		new Set([...inlineFunctionNames, ...pureFunctionNames])
-	).sort();
+		new Set([...inlineFunctionNames, ...autoFunctionNames, ...pureFunctionNames])
+	)
+		.filter((name): name is string => name !== undefined)
+		.sort();
 
 	if (isVerboseDebug(debug)) {
 		console.log(
 			chalk.blue(
-				`[unplugin-inline-functions] Metadata collection complete. Found ${totalInlineFunctions} @inline function(s) and ${totalPureFunctions} @pure function(s) across ${filesArray.length} file(s).`
+				`[unplugin-inline-functions] Metadata collection complete. Found ${totalInlineFunctions} @inline function(s)${autoInfo} and ${totalPureFunctions} @pure function(s) across ${filesArray.length} file(s).`
 			)
 		);
 
@@ -177,10 +198,13 @@ export function logMetadataCollectionSummary(filesArray: string[], debug: DebugO
 			console.log(chalk.cyan('\nFunctions:'));
 			for (const name of allFunctionNames) {
 				const tags: string[] = [];
-				if (inlinableFunctions.has(name)) {
+				if (inlineFunctionNames.has(name)) {
 					tags.push(chalk.cyan('[inline]'));
 				}
-				if (pureFunctions.has(name)) {
+				if (autoFunctionNames.has(name)) {
+					tags.push(chalk.magenta('[auto]'));
+				}
+				if (pureFunctionNames.has(name)) {
 					tags.push(chalk.yellow('[pure]'));
 				}
 				const tagsStr = tags.length > 0 ? ` ${tags.join(' ')}` : '';
@@ -191,7 +215,7 @@ export function logMetadataCollectionSummary(filesArray: string[], debug: DebugO
 		// Consolidated mode
 		console.log(
 			chalk.blue(
-				`[unplugin-inline-functions] Found ${totalInlineFunctions} @inline function(s) and ${totalPureFunctions} @pure function(s) in ${filesArray.length} file(s)`
+				`[unplugin-inline-functions] Found ${totalInlineFunctions} @inline function(s)${autoInfo} and ${totalPureFunctions} @pure function(s) in ${filesArray.length} file(s)`
 			)
 		);
 
@@ -200,10 +224,13 @@ export function logMetadataCollectionSummary(filesArray: string[], debug: DebugO
 			const functionList = allFunctionNames
 				.map((name) => {
 					const tags: string[] = [];
-					if (inlinableFunctions.has(name)) {
+					if (inlineFunctionNames.has(name)) {
 						tags.push(chalk.cyan('[inline]'));
 					}
-					if (pureFunctions.has(name)) {
+					if (autoFunctionNames.has(name)) {
+						tags.push(chalk.magenta('[auto]'));
+					}
+					if (pureFunctionNames.has(name)) {
 						tags.push(chalk.yellow('[pure]'));
 					}
 					const tagsStr = tags.length > 0 ? ` ${tags.join(' ')}` : '';
@@ -214,3 +241,26 @@ export function logMetadataCollectionSummary(filesArray: string[], debug: DebugO
 		}
 	}
 }
+
+/**
+ * Log a call that was left alone because its callee does not refer to the @inline function
+ * of the same name.
+ */
+export function logSkippedCall(
+	filePath: string,
+	loc: SourceLocation | null | undefined,
+	name: string,
+	reason: string,
+	projectRoot: string | undefined,
+	debug: DebugOption
+): void {
+	if (!isDebugEnabled(debug)) return;
+
+	const relativePath = projectRoot ? path.relative(projectRoot, filePath) : filePath;
+	const position = loc ? `:${loc.start.line}:${loc.start.column + 1}` : '';
+	console.log(
+		chalk.yellow(
+			`[unplugin-inline-functions] Skipped ${name}() at ${relativePath}${position}: ${reason}`
+		)
+	);
+}
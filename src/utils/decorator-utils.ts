@@ -1,20 +1,115 @@
-import { Node } from '@babel/types';
+import { Comment, Node } from '@babel/types';
+
+/** A tag like `@inline` or `@inline(depth=2)` in a comment. */
+export interface Annotation {
+	/** The tag without its `@`. */
+	name: string;
+	/** Arguments without a value, like `always` in `@inline(always)`. */
+	flags: string[];
+	/** Arguments with a value, like `depth=2`. */
+	values: Map<string, string>;
+}
+
+/** What the arguments of its annotations say about a function, see `getFunctionAnnotations`. */
+export interface FunctionAnnotations {
+	/** `@inline(always)`: inlined even where a size budget is exhausted. */
+	always?: boolean;
+	/**
+	 * `@inline(depth=N)`: how many levels deep it and the calls nested in its inlined body
+	 * are inlined, so `depth=1` inlines none of the calls in its body.
+	 */
+	depth?: number;
+	/** `@pure(reads)`: free of side effects, but reads state that can change between calls. */
+	readsState?: boolean;
+}
+
+// A tag starts the comment, a line or a word, so `a@inline` is not one. Its name must end
+// there, so `@inline-block` or `@pure-css` are other tags.
+const tagPattern = /(?:^|[\s*])@([A-Za-z]\w*)(?![\w-])(?:\(([^)]*)\))?/g;
+
+/**
+ * Parse the tags of a block, JSDoc or line comment.
+ */
+export function parseAnnotations(comment: Comment): Annotation[] {
+	const annotations: Annotation[] = [];
+
+	for (const [, name, args] of comment.value.matchAll(tagPattern)) {
+		const annotation: Annotation = { name, flags: [], values: new Map() };
+		for (const arg of args?.split(',') ?? []) {
+			const [key, value] = arg.split('=').map((part) => part.trim());
+			if (!key) continue;
+			if (value === undefined) annotation.flags.push(key);
+			else annotation.values.set(key, value);
+		}
+		annotations.push(annotation);
+	}
+
+	return annotations;
+}
+
+/**
+ * The annotations named `name` in the leading comments of a node.
+ */
+export function getAnnotations(node: Node, name: string): Annotation[] {
+	if (!node.leadingComments) return [];
+	return node.leadingComments.flatMap((comment) =>
+		parseAnnotations(comment).filter((annotation) => annotation.name === name)
+	);
+}
+
+// `@inline(false)` is a spelling of `@noinline`.
+function isInlineFalse(annotation: Annotation) {
+	return annotation.name === 'inline' && annotation.flags.includes('false');
+}
+
+export function isNoinlineComment(comment: Comment) {
+	return parseAnnotations(comment).some(
+		(annotation) => annotation.name === 'noinline' || isInlineFalse(annotation)
+	);
+}
 
 export function hasInlineDecorator(node: Node) {
-	if (!node.leadingComments) return false;
-	const inlineComment = node.leadingComments.find((c) => c.value.includes('@inline'));
-	return !!inlineComment;
+	const annotations = getAnnotations(node, 'inline');
+	return annotations.length > 0 && !annotations.some(isInlineFalse);
 }
 
 export function hasPureDecorator(node: Node) {
+	return getAnnotations(node, 'pure').length > 0;
+}
+
+export function hasNoinlineDecorator(node: Node) {
 	if (!node.leadingComments) return false;
-	const pureComment = node.leadingComments.find((c) => c.value.includes('@pure'));
-	return !!pureComment;
+	const noinlineComment = node.leadingComments.find(isNoinlineComment);
+	return !!noinlineComment;
+}
+
+/**
+ * Read the arguments of the @inline and @pure annotations on the nodes that annotate a
+ * function. Depths that are not a whole number are ignored.
+ */
+export function getFunctionAnnotations(nodes: Node[]): FunctionAnnotations {
+	const annotations: FunctionAnnotations = {};
+
+	for (const node of nodes) {
+		for (const inline of getAnnotations(node, 'inline')) {
+			if (inline.flags.includes('always')) annotations.always = true;
+
+			const depth = Number(inline.values.get('depth') || NaN);
+			if (Number.isInteger(depth) && depth >= 0) annotations.depth = depth;
+		}
+		for (const pure of getAnnotations(node, 'pure')) {
+			if (pure.flags.includes('reads')) annotations.readsState = true;
+		}
+	}
+
+	return annotations;
 }
 
 export function removeDecorators(node: Node) {
 	if (!node.leadingComments) return;
-	node.leadingComments = node.leadingComments.filter(
-		(c) => !c.value.includes('@inline') && !c.value.includes('@pure')
+	node.leadingComments = node.leadingComments.filter((c) =>
+		parseAnnotations(c).every(
+			(annotation) => annotation.name !== 'inline' && annotation.name !== 'pure'
+		)
 	);
 }
@@ -0,0 +1,196 @@
+import { NodePath, Scope } from '@babel/traverse';
+import {
+	DoWhileStatement,
+	ForStatement,
+	Function,
+	isArrowFunctionExpression,
+	isAssignmentExpression,
+	isCallExpression,
+	isFunctionExpression,
+	isIdentifier,
+	isLiteral,
+	isMemberExpression,
+	isNewExpression,
+	isObjectMethod,
+	isObjectProperty,
+	isOptionalCallExpression,
+	isSuper,
+	isTaggedTemplateExpression,
+	isTemplateLiteral,
+	isThisExpression,
+	isTSAsExpression,
+	isTSNonNullExpression,
+	isTSSatisfiesExpression,
+	isVariableDeclaration,
+	isVariableDeclarator,
+	Node,
+	VISITOR_KEYS,
+	WhileStatement,
+} from '@babel/types';
+
+export type LoopClause = 'test' | 'update';
+
+export type EvaluationContext =
+	/** Runs whenever its statement runs, so inlined statements can go right before it. */
+	| { kind: 'statement' }
+	/** Only runs on some paths through its statement: `&&`, `||`, `??`, ternaries, `case`, etc. */
+	| { kind: 'conditional' }
+	/** Runs after other code of its statement, which inlined statements must not run before. */
+	| { kind: 'sequenced' }
+	/** Part of a loop test or update, which runs again on every iteration. */
+	| {
+			kind: 'loop';
+			loopPath: NodePath<WhileStatement | DoWhileStatement | ForStatement>;
+			clause: LoopClause;
+			clausePath: NodePath;
+	  }
+	/** Part of a parameter list, which runs before the function body. */
+	| { kind: 'parameter'; functionPath: NodePath<Function>; paramPath: NodePath }
+	/** Somewhere statements cannot be inserted, like a class field initializer. */
+	| { kind: 'unsupported'; reason: string };
+
+/**
+ * Check if evaluating a node neither runs code nor reads state that code run after it could
+ * change. References, like the callee of a call, are only read up to their last property.
+ */
+function isSettled(node: Node | null | undefined, scope: Scope, isReference = false): boolean {
+	if (!node) return true;
+
+	if (isIdentifier(node)) {
+		// Imports are live, and other variables may be assigned by the code that runs later.
+		const binding = scope.getBinding(node.name);
+		return !binding || (binding.kind !== 'module' && binding.constant);
+	}
+
+	if (isTemplateLiteral(node)) return node.expressions.every((part) => isSettled(part, scope));
+	if (
+		isLiteral(node) ||
+		isThisExpression(node) ||
+		isSuper(node) ||
+		isFunctionExpression(node) ||
+		isArrowFunctionExpression(node)
+	) {
+		return true;
+	}
+
+	if (isTSAsExpression(node) || isTSSatisfiesExpression(node) || isTSNonNullExpression(node)) {
+		return isSettled(node.expression, scope, isReference);
+	}
+
+	if (isReference && isMemberExpression(node)) {
+		return (
+			isSettled(node.object, scope, true) && (!node.computed || isSettled(node.property, scope))
+		);
+	}
+
+	if (isVariableDeclarator(node)) return isSettled(node.init, scope);
+	if (isObjectProperty(node)) {
+		return (!node.computed || isSettled(node.key, scope)) && isSettled(node.value, scope);
+	}
+	if (isObjectMethod(node)) return !node.computed || isSettled(node.key, scope);
+
+	return false;
+}
+
+/**
+ * Check if the parts of `parent` that are evaluated before `child`, like the elements before
+ * it in an array or the left operand of an operator, run code or read changing state.
+ */
+function runsCodeBefore(parent: NodePath, child: NodePath): boolean {
+	const { node, scope } = parent;
+	const childKey = child.listKey ?? child.key;
+	// Of statements, only the declarators before it in a declaration run before the call.
+	const keys = isVariableDeclaration(node)
+		? ['declarations']
+		: parent.isStatement()
+			? []
+			: (VISITOR_KEYS[node.type] ?? []);
+
+	for (const key of keys) {
+		const value = (node as unknown as Record<string, Node | Node[] | null>)[key];
+		const earlier =
+			key !== childKey
+				? value
+				: Array.isArray(value)
+					? value.slice(0, child.key as number)
+					: undefined;
+
+		for (const earlierNode of Array.isArray(earlier) ? earlier : [earlier]) {
+			if (!earlierNode) continue;
+			// Names that are declared or keys that are not computed are not evaluated.
+			if (isVariableDeclarator(node) && key === 'id') continue;
+			if (isObjectProperty(node) && key === 'key' && !node.computed) continue;
+			if (isAssignmentExpression(node) && key === 'left') {
+				// A plain assignment only writes its target, once the value is known.
+				if (node.operator === '=' && !isMemberExpression(earlierNode)) continue;
+				if (!isSettled(earlierNode, scope, node.operator === '=')) return true;
+				continue;
+			}
+			const isCallee =
+				key === (isTaggedTemplateExpression(node) ? 'tag' : 'callee') &&
+				(isCallExpression(node) ||
+					isOptionalCallExpression(node) ||
+					isNewExpression(node) ||
+					isTaggedTemplateExpression(node));
+			if (!isSettled(earlierNode, scope, isCallee)) return true;
+		}
+
+		if (key === childKey) break;
+	}
+
+	return false;
+}
+
+/**
+ * Work out when a call runs relative to the statement that contains it.
+ */
+export function findEvaluationContext(path: NodePath): EvaluationContext {
+	let child = path;
+	let parent = path.parentPath;
+	let isConditional = false;
+	let isSequenced = false;
+
+	while (parent && !child.isStatement()) {
+		if (parent.isFunction()) {
+			if (child.listKey === 'params') {
+				return { kind: 'parameter', functionPath: parent, paramPath: child };
+			}
+			// A concise arrow body, which gets a block of its own when statements are inserted.
+			break;
+		}
+
+		if (
+			(parent.isWhileStatement() || parent.isDoWhileStatement() || parent.isForStatement()) &&
+			(child.key === 'test' || child.key === 'update')
+		) {
+			return { kind: 'loop', loopPath: parent, clause: child.key, clausePath: child };
+		}
+
+		if (
+			parent.isClassProperty() ||
+			parent.isClassPrivateProperty() ||
+			parent.isClassAccessorProperty()
+		) {
+			return { kind: 'unsupported', reason: 'it is part of a class field initializer' };
+		}
+
+		if (
+			(parent.isLogicalExpression() && child.key === 'right') ||
+			(parent.isConditionalExpression() && child.key !== 'test') ||
+			(parent.isSwitchCase() && child.key === 'test') ||
+			(parent.isAssignmentPattern() && child.key === 'right') ||
+			(parent.isOptionalCallExpression() && child.listKey === 'arguments') ||
+			(parent.isOptionalMemberExpression() && child.key === 'property')
+		) {
+			isConditional = true;
+		}
+
+		if (!isSequenced && runsCodeBefore(parent, child)) isSequenced = true;
+
+		child = parent;
+		parent = parent.parentPath;
+	}
+
+	if (isConditional) return { kind: 'conditional' };
+	return isSequenced ? { kind: 'sequenced' } : { kind: 'statement' };
+}
@@ -0,0 +1,31 @@
+import {
+	getBindingIdentifiers,
+	isAssignmentExpression,
+	isForInStatement,
+	isForOfStatement,
+	isUpdateExpression,
+	Node,
+	traverseFast,
+} from '@babel/types';
+
+/**
+ * Collect the names of all identifiers that are assigned to somewhere inside `node`.
+ */
+export function getAssignedNames(node: Node): Set<string> {
+	const names = new Set<string>();
+
+	traverseFast(node, (child) => {
+		let target: Node | undefined;
+		if (isAssignmentExpression(child) || isForInStatement(child) || isForOfStatement(child)) {
+			target = child.left;
+		} else if (isUpdateExpression(child)) {
+			target = child.argument;
+		}
+
+		if (target) {
+			for (const name of Object.keys(getBindingIdentifiers(target))) names.add(name);
+		}
+	});
+
+	return names;
+}
@@ -0,0 +1,18 @@
+import { isFunction, isIdentifier, Node, traverseFast } from '@babel/types';
+
+/**
+ * Collect the names of all identifiers inside functions nested in `node`, which are read
+ * whenever those functions run rather than where they are created.
+ */
+export function getClosureNames(node: Node): Set<string> {
+	const names = new Set<string>();
+
+	traverseFast(node, (child) => {
+		if (child === node || !isFunction(child)) return;
+		traverseFast(child, (inner) => {
+			if (isIdentifier(inner)) names.add(inner.name);
+		});
+	});
+
+	return names;
+}
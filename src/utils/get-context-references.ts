@@ -0,0 +1,73 @@
+import {
+	isArrowFunctionExpression,
+	isClassBody,
+	isFunction,
+	isIdentifier,
+	isMetaProperty,
+	isReferenced,
+	isSuper,
+	isThisExpression,
+	Node,
+	VISITOR_KEYS,
+} from '@babel/types';
+
+/** What a function body refers to of the call it runs in. */
+export interface ContextReferences {
+	this: boolean;
+	arguments: boolean;
+	newTarget: boolean;
+	super: boolean;
+}
+
+/**
+ * Check if a node is a function or class body with its own `this`, `arguments` and
+ * `new.target`, so references inside it are not those of the enclosing function.
+ */
+export function bindsOwnContext(node: Node): boolean {
+	return (isFunction(node) && !isArrowFunctionExpression(node)) || isClassBody(node);
+}
+
+/**
+ * Check if a node is `new.target`.
+ */
+export function isNewTarget(node: Node): boolean {
+	return isMetaProperty(node) && node.meta.name === 'new' && node.property.name === 'target';
+}
+
+/**
+ * Find the references a function body makes to its own `this`, `arguments`, `new.target`
+ * and `super`, ignoring nested functions and classes that bind their own.
+ */
+export function getContextReferences(body: Node): ContextReferences {
+	const references: ContextReferences = {
+		this: false,
+		arguments: false,
+		newTarget: false,
+		super: false,
+	};
+
+	const visit = (node: Node, parent?: Node, grandparent?: Node) => {
+		if (bindsOwnContext(node)) return;
+
+		if (isThisExpression(node)) references.this = true;
+		else if (isSuper(node)) references.super = true;
+		else if (isNewTarget(node)) references.newTarget = true;
+		else if (
+			isIdentifier(node, { name: 'arguments' }) &&
+			(!parent || isReferenced(node, parent, grandparent))
+		) {
+			references.arguments = true;
+		}
+
+		for (const key of VISITOR_KEYS[node.type]) {
+			const value = (node as unknown as Record<string, unknown>)[key];
+			const children = Array.isArray(value) ? value : [value];
+			for (const child of children) {
+				if (child && typeof (child as Node).type === 'string') visit(child, node, parent);
+			}
+		}
+	};
+
+	visit(body);
+	return references;
+}
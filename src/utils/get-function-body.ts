@@ -1,17 +1,13 @@
 import {
-	ArrowFunctionExpression,
 	blockStatement,
 	BlockStatement,
-	FunctionDeclaration,
-	FunctionExpression,
+	Function,
 	isArrowFunctionExpression,
 	returnStatement,
 } from '@babel/types';
 
 // Return a statement array with expressions normalized to return statements.
-export function getFunctionBody(
-	func: FunctionDeclaration | ArrowFunctionExpression | FunctionExpression
-): BlockStatement {
+export function getFunctionBody(func: Function): BlockStatement {
 	if (isArrowFunctionExpression(func)) {
 		if (func.body.type !== 'BlockStatement') return blockStatement([returnStatement(func.body)]);
 		return func.body;
@@ -1,15 +1,9 @@
-import {
-	ArrowFunctionExpression,
-	FunctionDeclaration,
-	FunctionExpression,
-	isIdentifier,
-} from '@babel/types';
+import { Function, FunctionParameter, isIdentifier, isTSParameterProperty } from '@babel/types';
 
-export function getFunctionParams(
-	node: FunctionDeclaration | ArrowFunctionExpression | FunctionExpression
-) {
-	const params = node.params
-		.map((param) => (isIdentifier(param) ? param.name : null))
-		.filter(Boolean) as string[];
-	return params;
+export function getFunctionParams(node: Function): FunctionParameter[] {
+	// Parameter properties only exist on class constructors, and a TypeScript `this`
+	// parameter only declares the type of `this`.
+	return node.params.filter(
+		(param) => !isTSParameterProperty(param) && !(isIdentifier(param) && param.name === 'this')
+	) as FunctionParameter[];
 }
@@ -0,0 +1,46 @@
+import {
+	File,
+	isExportAllDeclaration,
+	isExportNamedDeclaration,
+	isImportDeclaration,
+	StringLiteral,
+} from '@babel/types';
+import { InlineContext } from '../context';
+import { resolveImportSource } from './resolve-function';
+
+export interface ModuleImports {
+	/** Files the module imports from or re-exports from. */
+	imports: string[];
+	/** Files the module re-exports from, whose functions its importers reach through it. */
+	reexports: string[];
+}
+
+/**
+ * Resolve the files a module imports from, which decide what its calls can inline. Type-only
+ * imports and sources that cannot be resolved are left out.
+ */
+export function getModuleImports(context: InlineContext, ast: File, filePath: string): ModuleImports {
+	const imports = new Set<string>();
+	const reexports = new Set<string>();
+
+	for (const statement of ast.program.body) {
+		let source: StringLiteral | null | undefined;
+		if (isImportDeclaration(statement) && statement.importKind !== 'type') {
+			source = statement.source;
+		} else if (
+			(isExportAllDeclaration(statement) || isExportNamedDeclaration(statement)) &&
+			statement.exportKind !== 'type'
+		) {
+			source = statement.source;
+		}
+		if (!source) continue;
+
+		const resolved = resolveImportSource(context, source.value, filePath);
+		if (!resolved) continue;
+
+		imports.add(resolved);
+		if (!isImportDeclaration(statement)) reexports.add(resolved);
+	}
+
+	return { imports: Array.from(imports), reexports: Array.from(reexports) };
+}
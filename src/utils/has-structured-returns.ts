@@ -0,0 +1,59 @@
+import {
+	isBlockStatement,
+	isFunction,
+	isIfStatement,
+	isReturnStatement,
+	Node,
+	Statement,
+	VISITOR_KEYS,
+} from '@babel/types';
+
+/**
+ * Check if a node contains a return statement of its own, ignoring nested functions.
+ */
+export function containsReturn(node: Node): boolean {
+	if (isReturnStatement(node)) return true;
+	if (isFunction(node)) return false;
+
+	return VISITOR_KEYS[node.type].some((key) => {
+		const value = (node as unknown as Record<string, unknown>)[key];
+		const children = Array.isArray(value) ? value : [value];
+		return children.some(
+			(child) => !!child && typeof (child as Node).type === 'string' && containsReturn(child)
+		);
+	});
+}
+
+function getStatements(statement: Statement): Statement[] {
+	return isBlockStatement(statement) ? statement.body : [statement];
+}
+
+/**
+ * Check if every return in a function body can be lowered by moving the statements that
+ * follow an `if` into its `else` branch. That holds when returns only appear at the end of
+ * the body, at the end of an `if` without `else` (which then always returns), or anywhere
+ * in a trailing `if`/`else`. Returns in loops, `switch` or `try` need a labeled block.
+ */
+export function hasStructuredReturns(statements: Statement[]): boolean {
+	const endsWithReturn = (branch: Statement[]) =>
+		branch.length > 0 && isReturnStatement(branch[branch.length - 1]);
+
+	return statements.every((statement, index) => {
+		if (!containsReturn(statement)) return true;
+
+		const isLast = index === statements.length - 1;
+		if (isReturnStatement(statement)) return isLast;
+		if (!isIfStatement(statement)) return false;
+
+		const consequent = getStatements(statement.consequent);
+		if (!statement.alternate) {
+			return hasStructuredReturns(consequent) && endsWithReturn(consequent);
+		}
+
+		return (
+			isLast &&
+			hasStructuredReturns(consequent) &&
+			hasStructuredReturns(getStatements(statement.alternate))
+		);
+	});
+}
@@ -0,0 +1,60 @@
+import {
+	isAssignmentExpression,
+	isIdentifier,
+	isReturnStatement,
+	isUnaryExpression,
+	isUpdateExpression,
+	traverseFast,
+} from '@babel/types';
+import { InlinableFunction } from '../collect-metadata';
+import { InlineContext } from '../context';
+import { getContextReferences } from './get-context-references';
+import { getFunctionBody } from './get-function-body';
+import { measureFunctionSize } from './measure-function-size';
+
+export interface AutoInlineOptions {
+	/** Largest body, in AST nodes, of a function that is selected. */
+	maxNodes: number;
+}
+
+/**
+ * Check if a function that is not marked @inline is small and simple enough to be inlined
+ * anyway: its body returns a single expression of at most `maxNodes` nodes, it is neither
+ * async nor a generator, it does not call itself, it does not use `this` or `arguments`,
+ * and it does not assign to or delete anything.
+ */
+export function isAutoInlinable(
+	context: InlineContext,
+	func: InlinableFunction,
+	{ maxNodes }: AutoInlineOptions
+): boolean {
+	if (func.func.async || func.func.generator) return false;
+
+	const body = getFunctionBody(func.func);
+	const [statement] = body.body;
+	if (body.body.length !== 1 || !isReturnStatement(statement) || !statement.argument) {
+		return false;
+	}
+
+	if (measureFunctionSize(context, func).nodes > maxNodes) return false;
+
+	const references = getContextReferences(body);
+	if (references.this || references.arguments || references.newTarget || references.super) {
+		return false;
+	}
+
+	let isSimple = true;
+	traverseFast(body, (node) => {
+		if (
+			isAssignmentExpression(node) ||
+			isUpdateExpression(node) ||
+			isUnaryExpression(node, { operator: 'delete' }) ||
+			// Any use of its own name. Functions that call themselves through others are
+			// deselected once the calls of all files are resolved.
+			isIdentifier(node, { name: func.name })
+		) {
+			isSimple = false;
+		}
+	});
+	return isSimple;
+}
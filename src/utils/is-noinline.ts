@@ -0,0 +1,55 @@
+import { NodePath } from '@babel/traverse';
+import { File, Function } from '@babel/types';
+import { hasNoinlineDecorator, isNoinlineComment } from './decorator-utils';
+
+/**
+ * Check if a file opts out of inlining with a `@noinline` comment at its top, separated from
+ * the code by a blank line. A comment directly above the first statement annotates that
+ * statement instead.
+ */
+export function isNoinlineFile(ast: File): boolean {
+	const { directives, body } = ast.program;
+	const first = [...directives, ...body].sort((a, b) => (a.start ?? 0) - (b.start ?? 0))[0];
+	const header = (ast.comments ?? []).filter(
+		(comment) => !first || (comment.end ?? 0) <= (first.start ?? 0)
+	);
+
+	return header.some((comment, index) => {
+		if (!isNoinlineComment(comment)) return false;
+		const next = header[index + 1] ?? first;
+		if (!next?.loc || !comment.loc) return true;
+		return next.loc.start.line > comment.loc.end.line + 1;
+	});
+}
+
+/**
+ * Check if a function opts out of inlining the calls in its body with a `@noinline` comment,
+ * on the function itself, its method key, or the declaration, export or property it is the
+ * value of.
+ */
+export function isNoinlineFunction(path: NodePath<Function>): boolean {
+	const { node } = path;
+	if (hasNoinlineDecorator(node)) return true;
+	if (
+		(path.isObjectMethod() || path.isClassMethod() || path.isClassPrivateMethod()) &&
+		hasNoinlineDecorator(path.node.key)
+	) {
+		return true;
+	}
+
+	// Comments before `const run = () => {}` are attached to the declaration.
+	for (
+		let current = path.parentPath;
+		current &&
+		(current.isVariableDeclarator() ||
+			current.isVariableDeclaration() ||
+			current.isExportNamedDeclaration() ||
+			current.isExportDefaultDeclaration() ||
+			current.isObjectProperty() ||
+			current.isClassProperty());
+		current = current.parentPath
+	) {
+		if (hasNoinlineDecorator(current.node)) return true;
+	}
+	return false;
+}
@@ -0,0 +1,49 @@
+import {
+	isBigIntLiteral,
+	isBooleanLiteral,
+	isIdentifier,
+	isMemberExpression,
+	isNullLiteral,
+	isNumericLiteral,
+	isOptionalMemberExpression,
+	isStringLiteral,
+	isTemplateLiteral,
+	isThisExpression,
+	isUnaryExpression,
+	Node,
+} from '@babel/types';
+
+/**
+ * Check if an argument can be substituted at every use of its parameter instead of being
+ * evaluated once into a temporary. Member chains may run getters, so they only qualify when
+ * `allowMemberChains` is set, i.e. for @pure functions.
+ */
+export function isTrivialArgument(node: Node, allowMemberChains = false): boolean {
+	if (isIdentifier(node) || isThisExpression(node)) return true;
+
+	if (
+		isStringLiteral(node) ||
+		isNumericLiteral(node) ||
+		isBooleanLiteral(node) ||
+		isNullLiteral(node) ||
+		isBigIntLiteral(node)
+	) {
+		return true;
+	}
+
+	if (isTemplateLiteral(node)) return node.expressions.length === 0;
+
+	// Negative numbers are unary expressions.
+	if (isUnaryExpression(node) && (node.operator === '-' || node.operator === '+')) {
+		return isNumericLiteral(node.argument) || isBigIntLiteral(node.argument);
+	}
+
+	if (allowMemberChains && (isMemberExpression(node) || isOptionalMemberExpression(node))) {
+		return (
+			isTrivialArgument(node.object, true) &&
+			(!node.computed || isTrivialArgument(node.property))
+		);
+	}
+
+	return false;
+}
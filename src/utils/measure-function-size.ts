@@ -0,0 +1,30 @@
+import _generate from '@babel/generator';
+import { traverseFast } from '@babel/types';
+import { InlinableFunction } from '../collect-metadata';
+import { InlineContext } from '../context';
+import { FunctionSize } from '../stats';
+import { getBabelDefaultExport } from './babel-exports';
+import { getFunctionBody } from './get-function-body';
+
+const generate = getBabelDefaultExport(_generate);
+
+/**
+ * Measure the body of a function, which each inlined call adds to its caller. Sizes are
+ * kept in the stats until the function's file is collected again.
+ */
+export function measureFunctionSize(context: InlineContext, func: InlinableFunction): FunctionSize {
+	const cached = context.stats.getFunctionSize(func.key);
+	if (cached) return cached;
+
+	const body = getFunctionBody(func.func);
+	let nodes = 0;
+	traverseFast(body, () => {
+		nodes++;
+	});
+	// Compact and without comments, close to what a minifier leaves of it.
+	const bytes = generate(body, { compact: true, comments: false }).code.length;
+
+	const size = { nodes, bytes };
+	context.stats.setFunctionSize(func.key, size);
+	return size;
+}
@@ -0,0 +1,61 @@
+import { NodePath } from '@babel/traverse';
+import {
+	assignmentExpression,
+	binaryExpression,
+	BlockStatement,
+	blockStatement,
+	expressionStatement,
+	Function,
+	Identifier,
+	identifier,
+	ifStatement,
+	isAssignmentPattern,
+	isIdentifier,
+	isRestElement,
+	Node,
+	Statement,
+} from '@babel/types';
+
+/**
+ * Move the default value of a parameter, and of every parameter after it, into guarded
+ * assignments at the start of the function body. Later defaults may refer to earlier
+ * parameters, so they have to move together. Returns false when one of the parameters is
+ * not a plain identifier.
+ */
+export function moveDefaultsIntoBody(functionPath: NodePath<Function>, param: Node): boolean {
+	const params = functionPath.node.params;
+	const index = params.findIndex((node) => node === param);
+	if (index === -1) return false;
+
+	const isSimple = params
+		.slice(index)
+		.every(
+			(node) =>
+				isIdentifier(node) ||
+				(isAssignmentPattern(node) && isIdentifier(node.left)) ||
+				(isRestElement(node) && isIdentifier(node.argument))
+		);
+	if (!isSimple) return false;
+
+	const guards: Statement[] = [];
+	functionPath.node.params = params.map((node, paramIndex) => {
+		if (paramIndex < index || !isAssignmentPattern(node)) return node;
+
+		const { name } = node.left as Identifier;
+		guards.push(
+			ifStatement(
+				binaryExpression('===', identifier(name), identifier('undefined')),
+				blockStatement([
+					expressionStatement(assignmentExpression('=', identifier(name), node.right)),
+				])
+			)
+		);
+		return node.left as Identifier;
+	});
+
+	// The body has not been traversed yet, so the moved defaults are visited from there.
+	if (functionPath.isArrowFunctionExpression()) functionPath.ensureBlock();
+	(functionPath.node.body as BlockStatement).body.unshift(...guards);
+
+	return true;
+}
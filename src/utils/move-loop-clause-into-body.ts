@@ -0,0 +1,96 @@
+import { NodePath } from '@babel/traverse';
+import {
+	blockStatement,
+	booleanLiteral,
+	breakStatement,
+	DoWhileStatement,
+	expressionStatement,
+	ForStatement,
+	identifier,
+	ifStatement,
+	isBlockStatement,
+	isLabeledStatement,
+	isVariableDeclaration,
+	labeledStatement,
+	Statement,
+	unaryExpression,
+	WhileStatement,
+} from '@babel/types';
+import { LoopClause } from './find-evaluation-context';
+
+/**
+ * Turn every `continue` that targets the loop into a `break` out of its labeled body, so
+ * code placed after the body still runs before the next iteration.
+ */
+function redirectContinues(loopPath: NodePath<DoWhileStatement | ForStatement>, label: string) {
+	const loopLabel = isLabeledStatement(loopPath.parent) ? loopPath.parent.label.name : undefined;
+
+	loopPath.get('body').traverse({
+		Function(functionPath) {
+			functionPath.skip();
+		},
+		ContinueStatement(continuePath) {
+			const target = continuePath.node.label
+				? continuePath.node.label.name === loopLabel
+				: continuePath.findParent((ancestor) => ancestor.isLoop()) === loopPath;
+			if (target) continuePath.replaceWith(breakStatement(identifier(label)));
+		},
+	});
+}
+
+/**
+ * Move a loop test or update into the loop body, so a call in it can be inlined as
+ * statements that run on every iteration. Returns false when the move would change how
+ * block-scoped loop bindings are copied between iterations.
+ */
+export function moveLoopClauseIntoBody(
+	loopPath: NodePath<WhileStatement | DoWhileStatement | ForStatement>,
+	clause: LoopClause
+): boolean {
+	const loop = loopPath.node;
+	const body: Statement[] = isBlockStatement(loop.body) ? loop.body.body : [loop.body];
+
+	// A while or for test is checked at the top of each iteration, before the body.
+	if (clause === 'test' && !loopPath.isDoWhileStatement()) {
+		const test = (loop as WhileStatement | ForStatement).test!;
+		loop.body = blockStatement([
+			ifStatement(unaryExpression('!', test), breakStatement()),
+			...body,
+		]);
+		if (loopPath.isWhileStatement()) loopPath.node.test = booleanLiteral(true);
+		else (loop as ForStatement).test = null;
+		return true;
+	}
+
+	// Bindings declared with let or const are copied to a new environment before the
+	// update runs, so closures in the body must not see the update.
+	if (
+		loopPath.isForStatement() &&
+		isVariableDeclaration(loopPath.node.init) &&
+		loopPath.node.init.kind !== 'var'
+	) {
+		return false;
+	}
+
+	// A do/while test and a for update run after the body, and after every `continue`.
+	const label = loopPath.scope.generateUid('continue');
+	redirectContinues(loopPath as NodePath<DoWhileStatement | ForStatement>, label);
+
+	const labeledBody = labeledStatement(identifier(label), blockStatement(body));
+	if (loopPath.isDoWhileStatement()) {
+		const test = loopPath.node.test;
+		loopPath.node.body = blockStatement([
+			labeledBody,
+			ifStatement(unaryExpression('!', test), breakStatement()),
+		]);
+		loopPath.node.test = booleanLiteral(true);
+	} else {
+		const forLoop = loop as ForStatement;
+		forLoop.body = blockStatement([labeledBody, expressionStatement(forLoop.update!)]);
+		forLoop.update = null;
+	}
+
+	// The body of a do/while has already been visited, so visit the loop again.
+	if (loopPath.isDoWhileStatement()) loopPath.requeue();
+	return true;
+}
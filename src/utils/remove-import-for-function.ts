@@ -1,12 +1,12 @@
-import { NodePath } from '@babel/traverse';
-import { getModuleProgram } from './get-module-program';
+import _traverse from '@babel/traverse';
+import { File, Program } from '@babel/types';
+import { getBabelDefaultExport } from './babel-exports';
 
-export function removeImportForFunction(path: NodePath, name: string) {
-	const moduleProgram = getModuleProgram(path);
-	if (!moduleProgram) return;
+const traverse = getBabelDefaultExport(_traverse);
 
+export function removeImportForFunction(program: Program, name: string) {
 	// Find and remove the specifier for the inlined function
-	for (const node of moduleProgram.body) {
+	for (const node of program.body) {
 		if (node.type === 'ImportDeclaration') {
 			const specifierIndex = node.specifiers.findIndex((spec) => spec.local.name === name);
 
@@ -19,7 +19,7 @@ export function removeImportForFunction(path: NodePath, name: string) {
 
 				// If no specifiers left, remove the entire import declaration
 				if (node.specifiers.length === 0) {
-					moduleProgram.body = moduleProgram.body.filter((n) => n !== node);
+					program.body = program.body.filter((n) => n !== node);
 				}
 
 				return importPath;
@@ -27,3 +27,26 @@ export function removeImportForFunction(path: NodePath, name: string) {
 		}
 	}
 }
+
+/**
+ * Remove the imports of inlined functions that nothing refers to anymore. Calls that were
+ * not inlined, like those annotated @noinline or over a budget, still need them.
+ */
+export function removeUnusedImports(ast: File, names: Set<string>) {
+	if (names.size === 0) return;
+
+	const referenced = new Set<string>();
+	traverse(ast, {
+		Identifier(path) {
+			const { name } = path.node;
+			if (!names.has(name) || !path.isReferencedIdentifier()) return;
+			// Names of inlined code may not be registered, so unknown bindings count too.
+			const binding = path.scope.getBinding(name);
+			if (!binding || binding.kind === 'module') referenced.add(name);
+		},
+	});
+
+	for (const name of names) {
+		if (!referenced.has(name)) removeImportForFunction(ast.program, name);
+	}
+}
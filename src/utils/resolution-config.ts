@@ -10,17 +10,3 @@ export interface ResolutionConfig {
 	followPackageImports: FollowPackageImportsOption;
 	resolveImport?: ResolveImportHook;
 }
-
-let currentConfig: ResolutionConfig | null = null;
-
-export function setResolutionConfig(config: ResolutionConfig) {
-	currentConfig = config;
-}
-
-export function getResolutionConfig(): ResolutionConfig | null {
-	return currentConfig;
-}
-
-export function resetResolutionConfig() {
-	currentConfig = null;
-}
@@ -23,5 +23,11 @@ export function resolveExportPath(sourcePath: string, fromDir: string): string |
 		}
 	}
 
+	// TypeScript sources are imported with the extension of their compiled output.
+	const compiledExtension = /\.(m|c)?jsx?$/;
+	if (compiledExtension.test(sourcePath)) {
+		return resolveExportPath(sourcePath.replace(compiledExtension, ''), fromDir);
+	}
+
 	return null;
 }
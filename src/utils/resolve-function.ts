@@ -0,0 +1,273 @@
+import { Binding, Scope } from '@babel/traverse';
+import {
+	Identifier,
+	isIdentifier,
+	isImportDefaultSpecifier,
+	isImportDeclaration,
+	isImportNamespaceSpecifier,
+	isImportSpecifier,
+	isMemberExpression,
+	isPrivateName,
+	isStringLiteral,
+	MemberExpression,
+	Node,
+} from '@babel/types';
+import path from 'node:path';
+import { getFunctionKey } from '../collect-metadata';
+import { InlineContext } from '../context';
+import { resolveExportPath } from './resolve-export-path';
+import { resolveModulePath } from './resolve-module-path';
+
+/** How a call names its callee: `name()`, or `name.member()` for methods and namespaces. */
+export interface CalleeReference {
+	object: Identifier;
+	member?: string;
+}
+
+/**
+ * Get the name a callee is looked up by, for calls of a named function and calls of a
+ * named method on a named object, class or namespace import.
+ */
+export function getCalleeReference(callee: Node): CalleeReference | undefined {
+	if (isIdentifier(callee)) return { object: callee };
+	if (
+		isMemberExpression(callee) &&
+		!callee.computed &&
+		isIdentifier(callee.object) &&
+		isIdentifier(callee.property)
+	) {
+		return { object: callee.object, member: callee.property.name };
+	}
+	return undefined;
+}
+
+function qualifyName(name: string, member?: string) {
+	return member === undefined ? name : `${name}.${member}`;
+}
+
+function isKnownFunction(context: InlineContext, key: string) {
+	return context.metadata.inlinableFunctions.has(key) || context.metadata.allFunctions.has(key);
+}
+
+/**
+ * Resolve an import source of `importer` to the file it refers to, the way callees are.
+ */
+export function resolveImportSource(context: InlineContext, source: string, importer: string) {
+	const config = context.resolutionConfig;
+	if (!config) return resolveExportPath(source, path.dirname(importer));
+
+	return resolveModulePath(source, importer, config).resolved;
+}
+
+/**
+ * Fall back to a unique function with this name when a callee cannot be followed through
+ * bindings, e.g. a global made available by a side-effect import.
+ */
+function resolveFunctionByName(context: InlineContext, name: string) {
+	const { inlinableFunctions, allFunctions } = context.metadata;
+	let found: string | undefined;
+
+	for (const functions of [inlinableFunctions, allFunctions]) {
+		for (const func of functions.values()) {
+			if (func.name !== name) continue;
+			// Ambiguous: never guess between two definitions.
+			if (found) return undefined;
+			found = func.key;
+		}
+		if (found) return found;
+	}
+
+	return found;
+}
+
+/**
+ * Resolve the function a module exports under `exportName`, following re-exports.
+ */
+function resolveExportedFunction(
+	context: InlineContext,
+	filePath: string,
+	exportName: string,
+	seen: Set<string>,
+	member?: string
+): string | undefined {
+	const visitKey = getFunctionKey(filePath, qualifyName(exportName, member));
+	if (seen.has(visitKey)) return undefined;
+	seen.add(visitKey);
+
+	const exports = context.metadata.moduleExports.get(filePath);
+	if (!exports) return undefined;
+
+	const entry = exports.named.get(exportName);
+	if (entry) {
+		return entry.source === undefined
+			? resolveModuleFunction(context, filePath, entry.local, seen, member)
+			: resolveImportedFunction(context, filePath, entry.source, entry.local, seen, member);
+	}
+
+	if (exportName === 'default') return undefined;
+	for (const source of exports.star) {
+		const key = resolveImportedFunction(context, filePath, source, exportName, seen, member);
+		if (key) return key;
+	}
+
+	return undefined;
+}
+
+function resolveImportedFunction(
+	context: InlineContext,
+	importer: string,
+	source: string,
+	imported: string,
+	seen: Set<string> = new Set(),
+	member?: string
+): string | undefined {
+	// A member of a namespace import is an export of its module.
+	if (imported === '*') {
+		if (member === undefined) return undefined;
+		return resolveImportedFunction(context, importer, source, member, seen);
+	}
+
+	const resolved = resolveImportSource(context, source, importer);
+	// The bundler may still resolve what we cannot, e.g. through its own aliases.
+	if (!resolved) return resolveFunctionByName(context, qualifyName(imported, member));
+
+	return resolveExportedFunction(context, resolved, imported, seen, member);
+}
+
+/**
+ * Resolve a module-level name of a collected file, which is either declared there or
+ * imported from another module.
+ */
+function resolveModuleFunction(
+	context: InlineContext,
+	filePath: string,
+	name: string,
+	seen: Set<string>,
+	member?: string
+): string | undefined {
+	const key = getFunctionKey(filePath, qualifyName(name, member));
+	if (isKnownFunction(context, key)) return key;
+
+	const moduleImport = context.metadata.moduleImports.get(filePath)?.get(name);
+	if (!moduleImport) return undefined;
+
+	return resolveImportedFunction(
+		context,
+		filePath,
+		moduleImport.source,
+		moduleImport.imported,
+		seen,
+		member
+	);
+}
+
+function getImportedName(binding: Binding) {
+	const specifier = binding.path.node;
+	if (isImportDefaultSpecifier(specifier)) return 'default';
+	if (isImportNamespaceSpecifier(specifier)) return '*';
+	if (!isImportSpecifier(specifier)) return undefined;
+
+	return specifier.imported.type === 'Identifier'
+		? specifier.imported.name
+		: specifier.imported.value;
+}
+
+/**
+ * Resolve the function a callee name refers to, as a key from `getFunctionKey`. The name is
+ * looked up in `scope`, and imported names are followed to the module that defines them.
+ * `filePath` is the real path of the module `scope` belongs to. With a `member`, the callee
+ * is that method of the object, class or namespace import the name refers to.
+ */
+export function resolveCalledFunction(
+	context: InlineContext,
+	filePath: string,
+	name: string,
+	scope: Scope,
+	member?: string
+): string | undefined {
+	const binding = scope.getBinding(name);
+	// A free name, e.g. a global made available by a side-effect import.
+	if (!binding) return resolveFunctionByName(context, qualifyName(name, member));
+
+	if (binding.kind === 'module') {
+		const declaration = binding.path.parent;
+		const imported = getImportedName(binding);
+		if (!isImportDeclaration(declaration) || !imported) return undefined;
+
+		return resolveImportedFunction(
+			context,
+			filePath,
+			declaration.source.value,
+			imported,
+			new Set(),
+			member
+		);
+	}
+
+	const key = getFunctionKey(filePath, qualifyName(name, member));
+	const func =
+		context.metadata.inlinableFunctions.get(key) ?? context.metadata.allFunctions.get(key);
+	if (!func) return undefined;
+
+	// A parameter or local variable shadows the module-level function of the same name. The
+	// module may also be a fresh parse of a collected file, so compare by scope as well.
+	const isDeclaration = binding.path.node === func.path.node || binding.scope.path.isProgram();
+	return isDeclaration ? key : undefined;
+}
+
+/**
+ * Explain why a callee named like an @inline function does not resolve to it, for debug
+ * output. Returns undefined when no @inline function has this name.
+ */
+export function explainUnresolvedCallee(
+	context: InlineContext,
+	name: string,
+	scope: Scope
+): string | undefined {
+	const matches = Array.from(context.metadata.inlinableFunctions.values()).filter(
+		(func) => func.name === name
+	);
+	if (matches.length === 0) return undefined;
+
+	const binding = scope.getBinding(name);
+	if (!binding)
+		return `"${name}" is not declared here and matches ${matches.length} @inline functions`;
+
+	if (!binding.scope.path.isProgram()) {
+		const kind = binding.kind === 'param' ? 'parameter' : 'local variable';
+		return `"${name}" is shadowed by a ${kind}`;
+	}
+
+	if (binding.kind === 'module' && isImportDeclaration(binding.path.parent)) {
+		return `"${name}" is imported from '${binding.path.parent.source.value}', which does not export it as @inline`;
+	}
+
+	return `"${name}" refers to a declaration that is not @inline`;
+}
+
+/**
+ * Explain why a method call was not resolved, when an @inline method or getter has the name
+ * of its member. Returns undefined for calls of other members.
+ */
+export function explainUnresolvedMember(
+	context: InlineContext,
+	callee: MemberExpression
+): string | undefined {
+	const { property, computed } = callee;
+	const name = isPrivateName(property)
+		? `#${property.id.name}`
+		: !computed && isIdentifier(property)
+			? property.name
+			: isStringLiteral(property)
+				? property.value
+				: undefined;
+	if (name === undefined) return undefined;
+
+	const hasMatch = Array.from(context.metadata.inlinableFunctions.values()).some((func) =>
+		func.name.endsWith(`.${name}`)
+	);
+	if (!hasMatch) return undefined;
+
+	if (computed) return `"${name}" is a computed member, which is not resolved to @inline methods`;
+	return `"${name}" is not known to be an @inline method here, as the class of the receiver is not certain`;
+}
@@ -0,0 +1,120 @@
+import { Binding, NodePath, Scope } from '@babel/traverse';
+import {
+	ClassDeclaration,
+	Identifier,
+	isClassPrivateMethod,
+	isClassPrivateProperty,
+	isIdentifier,
+	isNewExpression,
+	isPrivateName,
+	isThisExpression,
+	isTSTypeAnnotation,
+	isTSTypeReference,
+	isVariableDeclarator,
+	MemberExpression,
+} from '@babel/types';
+import { bindsOwnContext } from './get-context-references';
+
+/**
+ * Resolve `member` of the class `classId` names, as seen from `scope`, to a function key.
+ */
+export type ResolveClassMember = (
+	classId: Identifier,
+	scope: Scope,
+	member: string
+) => string | undefined;
+
+/**
+ * The module-level class declaration a path is nested in, if it has a name.
+ */
+function getDeclaredClass(path: NodePath | null): NodePath<ClassDeclaration> | undefined {
+	if (!path?.isClassDeclaration() || !path.node.id) return undefined;
+	return path.parentPath.scope.path.isProgram() ? path : undefined;
+}
+
+/**
+ * The class whose instance `this` is in an instance method, getter or constructor.
+ */
+function getThisClass(path: NodePath) {
+	const method = path.findParent((ancestor) => bindsOwnContext(ancestor.node));
+	if (!method || (!method.isClassMethod() && !method.isClassPrivateMethod())) return undefined;
+	if (method.node.static) return undefined;
+
+	return getDeclaredClass(method.parentPath.parentPath);
+}
+
+/**
+ * The class that declares a private name and is nested around a path.
+ */
+function getPrivateNameClass(path: NodePath, name: string) {
+	const classPath = path.findParent(
+		(ancestor) =>
+			ancestor.isClass() &&
+			ancestor.node.body.body.some(
+				(member) =>
+					(isClassPrivateMethod(member) || isClassPrivateProperty(member)) &&
+					member.key.id.name === name
+			)
+	);
+	return getDeclaredClass(classPath);
+}
+
+/**
+ * The class a binding is known to hold an instance of: the class of a `const` initialised
+ * with `new Class()`, or the class a TypeScript annotation names.
+ */
+function getInstanceClass(binding: Binding): Identifier | undefined {
+	const { node } = binding.path;
+	if (
+		isVariableDeclarator(node) &&
+		binding.constant &&
+		isNewExpression(node.init) &&
+		isIdentifier(node.init.callee)
+	) {
+		return node.init.callee;
+	}
+
+	const annotation = binding.identifier.typeAnnotation;
+	if (!isTSTypeAnnotation(annotation)) return undefined;
+
+	const type = annotation.typeAnnotation;
+	return isTSTypeReference(type) && isIdentifier(type.typeName) ? type.typeName : undefined;
+}
+
+/**
+ * Resolve the instance method or getter a member expression refers to, as a function key.
+ * The class of the receiver must be certain: `this` in the class's own methods, a private
+ * name of a class around the expression, or a receiver bound by `new Class()` or annotated
+ * with the class. `@inline` on an instance member declares that subclasses do not override
+ * it, so the member of that class is the one that runs.
+ */
+export function resolveInstanceMember(
+	path: NodePath<MemberExpression>,
+	resolveClassMember: ResolveClassMember
+): string | undefined {
+	const { object, property, computed } = path.node;
+
+	if (isPrivateName(property)) {
+		const classPath = getPrivateNameClass(path, property.id.name);
+		if (!classPath) return undefined;
+		return resolveClassMember(
+			classPath.node.id!,
+			classPath.parentPath.scope,
+			`prototype.#${property.id.name}`
+		);
+	}
+
+	if (computed || !isIdentifier(property)) return undefined;
+	const member = `prototype.${property.name}`;
+
+	if (isThisExpression(object)) {
+		const classPath = getThisClass(path);
+		if (!classPath) return undefined;
+		return resolveClassMember(classPath.node.id!, classPath.parentPath.scope, member);
+	}
+
+	if (!isIdentifier(object)) return undefined;
+	const binding = path.scope.getBinding(object.name);
+	const classId = binding && getInstanceClass(binding);
+	return classId && resolveClassMember(classId, binding.path.scope, member);
+}
@@ -0,0 +1,53 @@
+import remapping, { SourceMapInput } from '@jridgewell/remapping';
+
+export interface EncodedSourceMap {
+	version: number;
+	file?: string;
+	names: string[];
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	mappings: string;
+}
+
+function normalizeSource(source: string) {
+	return source.replace(/\\/g, '/');
+}
+
+/**
+ * Fill in `sourcesContent` for every source referenced by the map. Inlined nodes keep the
+ * location of their defining file, so a map can reference files other than the one being
+ * transformed.
+ */
+export function attachSourcesContent(
+	map: EncodedSourceMap,
+	getSourceContent: (fileName: string) => string | undefined
+): EncodedSourceMap {
+	const sourcesContent = map.sources.map((source, index) => {
+		const existing = map.sourcesContent?.[index];
+		if (existing != null) return existing;
+		if (!source) return null;
+		return getSourceContent(source) ?? null;
+	});
+
+	return { ...map, sourcesContent };
+}
+
+/**
+ * Chain a map generated from the transform input with the map the input came with, for
+ * bundlers that do not combine loader maps on their own (webpack, rspack). Sources other
+ * than the transformed file come from inlined code and are kept as they are.
+ */
+export function chainSourceMap(
+	map: EncodedSourceMap,
+	inputMap: SourceMapInput | string,
+	fileName: string
+): EncodedSourceMap {
+	const input = typeof inputMap === 'string' ? JSON.parse(inputMap) : inputMap;
+	const target = normalizeSource(fileName);
+	const chained = remapping(map as SourceMapInput, (source) =>
+		normalizeSource(source) === target ? input : null
+	);
+
+	return JSON.parse(chained.toString());
+}
@@ -0,0 +1,188 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { rollup } from 'rollup';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InlineReport } from '../src/index';
+import inlineFunctions from '../src/rollup';
+
+describe('annotations', () => {
+	let tempProjectDir: string;
+
+	beforeEach(() => {
+		tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'annotations-'));
+		fs.mkdirSync(path.join(tempProjectDir, 'src'), { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempProjectDir, { recursive: true, force: true });
+	});
+
+	const build = async (
+		files: Record<string, string>,
+		options: Parameters<typeof inlineFunctions>[0] = {}
+	) => {
+		for (const [name, contents] of Object.entries(files)) {
+			fs.writeFileSync(path.join(tempProjectDir, 'src', name), contents);
+		}
+
+		const bundle = await rollup({
+			input: path.join(tempProjectDir, 'src/index.js'),
+			plugins: [
+				inlineFunctions({
+					include: ['src/**/*.js'],
+					cwd: tempProjectDir,
+					report: 'inline.json',
+					...options,
+				}),
+			],
+			onwarn: () => {},
+		});
+		const { output } = await bundle.generate({ format: 'es' });
+		await bundle.close();
+
+		const report: InlineReport = JSON.parse(
+			fs.readFileSync(path.join(tempProjectDir, 'inline.json'), 'utf8')
+		);
+		return { code: output[0].code, report };
+	};
+
+	it('should match whole tags, in JSDoc blocks too', async () => {
+		const { code, report } = await build({
+			'math.js': `/**
+ * Doubles a value.
+ *
+ * @inline
+ * @param value - The value to double
+ */
+export function double(value) {
+	return value * 2;
+}
+
+/* @inline-block */ export function triple(value) {
+	return value * 3;
+}
+
+/* @pure-css */ export function half(value) {
+	return value / 2;
+}
+`,
+			'index.js': `import { double, triple, half } from './math';
+
+export function run(x) {
+	return [double(x), triple(x), half(x)];
+}
+`,
+		});
+
+		expect(report.functions.map((func) => func.name)).toEqual(['double']);
+		expect(code).not.toContain('double(x)');
+		expect(code).toContain('triple(x)');
+		expect(code).not.toContain('__PURE__');
+	});
+
+	it('should inline @inline(always) functions past the budgets', async () => {
+		const { code, report } = await build(
+			{
+				'math.js': `export /* @inline(always) */ function double(value) {
+	return value * 2;
+}
+
+export /* @inline */ function square(value) {
+	return value * value;
+}
+`,
+				'index.js': `import { double, square } from './math';
+
+export function run(a, b) {
+	return double(a) + double(b) + square(a) + square(b) + /* @inline(always) */ square(a + b);
+}
+`,
+			},
+			{ maxExpansionsPerFunction: 1 }
+		);
+
+		expect(code).not.toContain('double(');
+		expect(code).toContain('square(b)');
+		expect(code).not.toContain('square(a + b)');
+		expect(report.skipped.map(({ callee }) => callee)).toEqual(['square']);
+	});
+
+	it('should stop inlining the body of @inline(depth=N) functions N levels deep', async () => {
+		const files = {
+			'math.js': `export /* @inline */ function addOne(n) {
+	return n + 1;
+}
+
+export /* @inline(depth=1) */ function addTwo(n) {
+	return addOne(addOne(n));
+}
+
+export /* @inline(depth=2) */ function addTwoDeep(n) {
+	return addOne(addOne(n));
+}
+`,
+			'index.js': `import { addTwo, addTwoDeep } from './math';
+
+export function shallow(n) {
+	return addTwo(n);
+}
+
+export function deep(n) {
+	return addTwoDeep(n);
+}
+`,
+		};
+		const { code, report } = await build(files);
+
+		expect(code).toMatch(/function shallow\(n\) \{\s*return addOne\(addOne\(n\)\);/);
+		expect(code).not.toMatch(/function deep\(n\) \{[^}]*addOne\(/);
+		expect(report.skipped).toEqual([
+			expect.objectContaining({
+				code: 'annotated-depth',
+				message: expect.stringContaining('@inline(depth=1)'),
+			}),
+			expect.objectContaining({ code: 'annotated-depth' }),
+		]);
+
+		// The depth is set on purpose, so it does not fail strict builds
+		const strict = await build(files, { strict: true });
+		expect(strict.code).toBe(code);
+	});
+
+	it('should not deduplicate the reads of @pure(reads) functions', async () => {
+		const { code, report } = await build({
+			'math.js': `export /* @inline @pure */ function getX(point) {
+	const x = point.x;
+	return x;
+}
+
+export /* @inline @pure(reads) */ function getY(point) {
+	const y = point.y;
+	return y;
+}
+`,
+			'index.js': `import { getX, getY } from './math';
+
+export function sumX(point) {
+	return getX(point) + getX(point);
+}
+
+export function sumY(point) {
+	return getY(point) + getY(point);
+}
+`,
+		});
+
+		expect(report.transformedFunctions).toEqual([
+			expect.objectContaining({ name: 'sumX', pure: true, deduplicated: 1 }),
+			expect.objectContaining({ name: 'sumY', pure: false, deduplicated: 0 }),
+		]);
+		expect(report.functions.find((func) => func.name === 'getY')?.pure).toBe(true);
+		expect(code.match(/point\.y/g)).toHaveLength(2);
+	});
+});
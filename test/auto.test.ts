@@ -0,0 +1,195 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { rollup } from 'rollup';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InlineDiagnostic, InlineReport } from '../src/index';
+import inlineFunctions from '../src/rollup';
+
+describe('auto', () => {
+	let tempProjectDir: string;
+
+	beforeEach(() => {
+		tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'auto-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+		const libDir = path.join(tempProjectDir, 'lib');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.mkdirSync(libDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'math.js'),
+			`export function scale(value) {
+	return value * 2;
+}
+
+export const offset = (value) => value + 10;
+
+export /* @noinline */ function keep(value) {
+	return value - 1;
+}
+
+export function factorial(n) {
+	return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+let count = 0;
+export function next() {
+	return count++;
+}
+
+export function total(a, b, c, d) {
+	return a * a + b * b + c * c + d * d + a * b * c * d;
+}
+
+export function steps(value) {
+	const doubled = value * 2;
+	return doubled + 1;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(libDir, 'helpers.js'),
+			`export function half(value) {
+	return value / 2;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { scale, offset, keep, factorial, next, total, steps } from './math';
+import { half } from '../lib/helpers';
+
+export function run(x) {
+	return [
+		scale(x),
+		offset(x),
+		keep(x),
+		factorial(x),
+		next(),
+		total(x, x, x, x),
+		steps(x),
+		half(x),
+	];
+}
+`
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		fs.rmSync(tempProjectDir, { recursive: true, force: true });
+	});
+
+	const build = async (options: Parameters<typeof inlineFunctions>[0]) => {
+		const bundle = await rollup({
+			input: path.join(tempProjectDir, 'src/index.js'),
+			plugins: [
+				inlineFunctions({
+					include: ['src/**/*.js'],
+					cwd: tempProjectDir,
+					report: 'inline.json',
+					...options,
+				}),
+			],
+			onwarn: () => {},
+		});
+		const { output } = await bundle.generate({ format: 'es' });
+		await bundle.close();
+
+		const report: InlineReport = JSON.parse(
+			fs.readFileSync(path.join(tempProjectDir, 'inline.json'), 'utf8')
+		);
+		return { code: output[0].code, report };
+	};
+
+	it('should inline small functions that are not marked @inline', async () => {
+		const { code, report } = await build({ auto: true });
+
+		expect(code).not.toContain('scale(x)');
+		expect(code).toContain('x * 2');
+		expect(code).not.toContain('offset(x)');
+		expect(code).toContain('x + 10');
+
+		expect(report.functions.filter((func) => func.auto).map((func) => func.name)).toEqual([
+			'offset',
+			'scale',
+		]);
+	});
+
+	it('should leave @noinline, recursive, large, impure and multi-statement functions alone', async () => {
+		const { code } = await build({ auto: true });
+
+		expect(code).toContain('keep(x)');
+		expect(code).toContain('factorial(x)');
+		expect(code).toContain('next()');
+		expect(code).toContain('total(x, x, x, x)');
+		expect(code).toContain('steps(x)');
+		// Only the included files are selected from, not the files they import.
+		expect(code).toContain('half(x)');
+	});
+
+	it('should leave mutually recursive functions alone, without reporting them', async () => {
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'src/parity.js'),
+			`export function ping(n) {
+	return n > 0 ? pong(n - 1) : 0;
+}
+
+export function pong(n) {
+	return n > 0 ? ping(n - 1) : 1;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'src/index.js'),
+			`import { ping } from './parity';
+import { scale } from './math';
+
+export function run(x) {
+	return ping(scale(x));
+}
+`
+		);
+
+		const diagnostics: InlineDiagnostic[] = [];
+		const { code, report } = await build({
+			auto: true,
+			strict: true,
+			diagnostics: (diagnostic) => diagnostics.push(diagnostic),
+		});
+
+		expect(code).toContain('ping(x * 2)');
+		const selected = report.functions.filter((func) => func.auto).map((func) => func.name);
+		expect(selected).toContain('scale');
+		expect(selected).not.toContain('ping');
+		expect(selected).not.toContain('pong');
+		expect(diagnostics).toEqual([]);
+	});
+
+	it('should select larger functions with a higher maxNodes', async () => {
+		const { code } = await build({ auto: { maxNodes: 100 } });
+
+		expect(code).not.toContain('total(x, x, x, x)');
+		expect(code).toContain('keep(x)');
+	});
+
+	it('should not select anything unless enabled', async () => {
+		const { code, report } = await build({});
+
+		expect(code).toContain('scale(x)');
+		expect(report.functions).toEqual([]);
+	});
+
+	it('should list the selected functions in debug output', async () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+		await build({ auto: true, debug: true });
+
+		const output = log.mock.calls.map((args) => args.join(' ')).join('\n');
+		expect(output).toContain('2 selected by auto');
+		expect(output).toMatch(/scale.*\[auto\]/);
+	});
+});
@@ -26,8 +26,13 @@ function assertInlinedFunctions(transformedCode: string) {
 	// Instead, the function bodies should be inlined directly
 	expect(functionBody).toContain('userCache.get(');
 	expect(functionBody).toContain('database.users.find(');
-	// Optional chaining might be transformed by bundlers, so check for either format
-	expect(functionBody.includes('?.name') || functionBody.includes('_a.name')).toBeTruthy();
+	// Optional chaining might be transformed by bundlers, so check for either format. The
+	// argument of getUserName is a call, so it is read through its temporary.
+	expect(
+		functionBody.includes('?.name') ||
+			functionBody.includes('_a.name') ||
+			functionBody.includes('_$f.name')
+	).toBeTruthy();
 	expect(functionBody).toContain('"Unknown"');
 }
 
@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { buildFilesEsbuild } from './utils/build-esbuild';
 import { resolve } from 'path';
 
@@ -17,6 +17,12 @@ describe('Correctness tests', () => {
 		// The inlined function body should appear instead
 		expect(transformedCode).toContain('const sum =');
 		expect(transformedCode).toContain('const product =');
+
+		// The missing parameter is undefined instead of leaking into the caller
+		const testFunctionMatch = transformedCode.match(
+			/function testFunction\(\)\s*\{([\s\S]*?)\n\}/
+		);
+		expect(testFunctionMatch![1]).not.toMatch(/\bc\b/);
 	});
 
 	it('should preserve statements after if statements when inlining', async () => {
@@ -128,4 +134,372 @@ describe('Correctness tests', () => {
 		// not a renamed local like `ctx_N_$f`.
 		expect(transformedCode).toMatch(/"value"\s+in\s+ctx[\s?]/);
 	});
+
+	it('should not inline calls whose callee is shadowed by a local binding', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/name-collision/shadowed.ts');
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		try {
+			const result = await buildFilesEsbuild(entryPoint, { debug: true });
+			const transformedCode = result.outputFiles[0].text;
+
+			const parameterMatch = transformedCode.match(/function withParameter\([\s\S]*?\n\}/);
+			expect(parameterMatch![0]).toContain('return getId(user);');
+
+			const localMatch = transformedCode.match(/function withLocal\([\s\S]*?\n\}/);
+			expect(localMatch![0]).toContain('toUpperCase()');
+			expect(localMatch![0]).toMatch(/return getLabel\d*\(user\);/);
+
+			// Unshadowed references still inline the imported and local @inline functions
+			const inlineMatch = transformedCode.match(/function withInline\([\s\S]*?\n\}/);
+			expect(inlineMatch![0]).not.toMatch(/getId|getLabel/);
+			expect(inlineMatch![0]).toContain('user ${user.id}');
+
+			const messages = log.mock.calls.map(([message]) => String(message));
+			expect(messages.some((message) => message.includes('shadowed by a parameter'))).toBe(
+				true
+			);
+			expect(messages.some((message) => message.includes('shadowed by a local variable'))).toBe(
+				true
+			);
+		} finally {
+			log.mockRestore();
+		}
+	});
+
+	it('should not inline a same-named function imported from an unrelated module', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/name-collision/unrelated-import.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		expect(transformedCode).toContain('plain:');
+		expect(transformedCode).toMatch(/return getId\d*\(user\);/);
+	});
+
+	it('should evaluate each argument exactly once and in call order', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/argument-evaluation.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		// A call argument is stored in a temporary instead of being repeated
+		const pairMatch = transformedCode.match(/function pairOfNextId\(\)\s*\{([\s\S]*?)\n\}/);
+		expect(pairMatch![1].match(/nextId\(\)/g)).toHaveLength(1);
+		expect(pairMatch![1]).toMatch(/const (id_arg_\d+_\$f) = nextId\(\);\s*return \[\1, \1\];/);
+
+		// Plain identifiers are still substituted directly
+		const valueMatch = transformedCode.match(/function pairOfValue\(value\)\s*\{([\s\S]*?)\n\}/);
+		expect(valueMatch![1]).toContain('return [value, value];');
+
+		// Arguments are evaluated left to right even though the body reads them in reverse
+		const differenceMatch = transformedCode.match(
+			/function differenceOfNextIds\(\)\s*\{([\s\S]*?)\n\}/
+		);
+		const firstIndex = differenceMatch![1].search(/const a_arg_\d+_\$f = nextId\(\);/);
+		const secondIndex = differenceMatch![1].search(/const b_arg_\d+_\$f = nextId\(\) \* 10;/);
+		expect(firstIndex).toBeGreaterThanOrEqual(0);
+		expect(secondIndex).toBeGreaterThan(firstIndex);
+
+		// Variables read before a later argument runs are stored first, constants are not
+		const incrementBody = transformedCode.match(
+			/function bothWithIncrement\(\)\s*\{([\s\S]*?)\n\}/
+		)![1];
+		expect(incrementBody).toMatch(
+			/const (a_arg_\d+_\$f) = x;\s*const (b_arg_\d+_\$f) = x\+\+;\s*return \[\1, \2\];/
+		);
+		const nextIdBody = transformedCode.match(
+			/function bothWithNextId\(\)\s*\{([\s\S]*?)\n\}/
+		)![1];
+		expect(nextIdBody).toMatch(/const (a_arg_\d+_\$f) = y;\s*const b_arg_\d+_\$f = nextId\(\);/);
+		expect(nextIdBody).not.toMatch(/a_arg_\d+_\$f = fixed/);
+		expect(nextIdBody).toMatch(/\[fixed, b_arg_\d+_\$f\]/);
+
+		// Arguments read in a nested function, or after the body assigns to them, are bound
+		// to their value at the call
+		const laterBody = transformedCode.match(/function laterThis\(\)\s*\{([\s\S]*?)\n\}/)![1];
+		expect(laterBody).toMatch(
+			/const (value_arg_\d+_\$f) = this;\s*return function\(\) \{\s*return \1;/
+		);
+		const totalBody = transformedCode.match(
+			/function addTotalToItself\(\)\s*\{([\s\S]*?)\n\}/
+		)![1];
+		expect(totalBody).toMatch(/const (amount_arg_\d+_\$f) = total;\s*total \+= \1;\s*return \1;/);
+
+		// Earlier code of the statement still runs before the arguments and the body
+		const loggedBody = transformedCode.match(
+			/function loggedAfterFirst\(\)\s*\{([\s\S]*?)\n\}/
+		)![1];
+		expect(loggedBody).toMatch(
+			/return \[mark\("first"\), \((value_arg_\d+_\$f) = mark\("arg"\), mark\("body"\), \1\)\];/
+		);
+
+		// A reassigned parameter never writes to the caller's variable
+		const incrementMatch = transformedCode.match(
+			/function incrementValue\(value\)\s*\{([\s\S]*?)\n\}/
+		);
+		expect(incrementMatch![1]).toMatch(/let value_arg_\d+_\$f = value;/);
+		expect(incrementMatch![1]).not.toMatch(/\bvalue \+= 1/);
+	});
+
+	it('should only evaluate inlined code when a conditional expression reaches the call', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/short-circuit.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// Side effects stay on the right-hand side of &&, || and ??
+		expect(getFunctionBody('trackIfEnabled')).toContain('return enabled && (calls++, value);');
+		expect(getFunctionBody('trackFallback')).toContain('return value || (calls++, 1);');
+		expect(getFunctionBody('trackNullish')).toContain('return value ?? (calls++, 2);');
+
+		// Early returns are lowered to a conditional expression inside the branch
+		const clampBody = getFunctionBody('clampIfEnabled');
+		expect(clampBody).toMatch(/let result_clamp_\d+_\$f, limit_\d+_\$f;/);
+		expect(clampBody).toMatch(/return enabled \? \(/);
+		expect(clampBody).not.toMatch(/^\s*if/m);
+
+		// Case tests are evaluated in order, only until one matches
+		const switchBody = getFunctionBody('describeClamped');
+		expect(switchBody).toContain('case (calls++, 0):');
+		expect(switchBody).toMatch(/case \(result_clamp_\d+_\$f = void 0, value < 0 \?/);
+		expect(switchBody).toMatch(/^\s*let [^;]*;\s*switch/);
+
+		// Default values that need statements only run when the parameter is undefined
+		const defaultBody = getFunctionBody('trackDefault');
+		expect(defaultBody).toMatch(/if \(value === void 0\) \{\s*calls\+\+;\s*value = 3;\s*\}/);
+		expect(defaultBody).toMatch(/if \(other === void 0\) \{\s*other = value \+ 1;\s*\}/);
+
+		// A concise arrow body gets a block instead of hoisting out of the arrow
+		expect(transformedCode).toMatch(
+			/var clampedArrow = \(value\) => \{\s*let result_clamp_\d+_\$f;/
+		);
+		expect(transformedCode).toContain('values.map((value) => value * 2)');
+	});
+
+	it('should inline loop tests and updates on every iteration', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/loop-clauses.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// Bodies that can be written as an expression stay in the loop head
+		expect(getFunctionBody('drainWhile')).toMatch(
+			/while \(\(value = \(next_\d+_\$f = queue\.shift\(\), next_\d+_\$f\)\) !== void 0\)/
+		);
+		expect(getFunctionBody('drainDoWhile')).toMatch(
+			/\} while \(value !== void 0 && \(next_\d+_\$f = queue\.shift\(\), next_\d+_\$f\) !== void 0\);/
+		);
+
+		// The for initializer runs once, the update on every iteration
+		const drainForBody = getFunctionBody('drainFor');
+		expect(drainForBody).toMatch(
+			/const next_\d+_\$f = queue\.shift\(\);\s*let next_\d+_\$f;\s*for/
+		);
+		expect(drainForBody).toMatch(/; value = \(next_\d+_\$f = queue\.shift\(\), next_\d+_\$f\)\)/);
+
+		// A while test with a loop in its body moves to the top of the loop body
+		expect(getFunctionBody('countWhileBelow')).toMatch(
+			/while \(true\) \{\s*let total_\d+_\$f = 0;[\s\S]*?if \(!\(total_\d+_\$f < limit\)\) break;\s*queue\.push\(1\);/
+		);
+
+		// A for update and a do/while test move after the body, and `continue` still reaches them
+		const stepForBody = getFunctionBody('stepFor');
+		expect(stepForBody).toContain('for (var total = 0; total < limit; ) {');
+		expect(stepForBody).toMatch(/(_continue\d*): \{\s*if \(steps\+\+ > 10\) break \1;/);
+		expect(stepForBody).toMatch(/total = total_\d+_\$f;\s*\}/);
+
+		const pushDoWhileBody = getFunctionBody('pushDoWhile');
+		expect(pushDoWhileBody).toMatch(/(_continue\d*): \{\s*if \(queue\.length % 2\) break \1;/);
+		expect(pushDoWhileBody).toMatch(
+			/if \(!\(total_\d+_\$f < limit\)\) break;\s*\} while \(true\);/
+		);
+
+		// A for...of iterable is evaluated once, before the loop
+		expect(getFunctionBody('logValues')).toMatch(
+			/const copy_\d+_\$f = \[\.\.\.queue\];\s*for \(const value of copy_\d+_\$f\)/
+		);
+	});
+
+	it('should exit early from returns inside loops, switch and try blocks', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/early-returns.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// A return inside a loop breaks out of the labeled body before the fallback return
+		const firstEvenBody = getFunctionBody('firstEven');
+		expect(firstEvenBody).toMatch(
+			/(exit_findEven_\d+_\$f): \{\s*for [\s\S]*?result_findEven_\d+_\$f = value_\d+_\$f;\s*break \1;/
+		);
+		expect(firstEvenBody).toMatch(
+			/result_findEven_\d+_\$f = -1;\s*\}\s*const even = result_findEven_\d+_\$f;/
+		);
+
+		// Switch cases exit the inlined body, not just the switch
+		expect(getFunctionBody('label')).toMatch(
+			/case "a":\s*result_describe_\d+_\$f = "first";\s*break exit_describe_\d+_\$f;/
+		);
+
+		// Breaking out of try and catch still runs the finally block
+		expect(getFunctionBody('parseCount')).toMatch(
+			/try \{\s*result_parseOr_\d+_\$f = JSON\.parse\(text\);\s*break exit_parseOr_\d+_\$f;\s*\} catch \{\s*result_parseOr_\d+_\$f = 0;\s*break exit_parseOr_\d+_\$f;\s*\} finally \{/
+		);
+
+		// A return nested in an if that can fall through does not skip the final return
+		expect(getFunctionBody('signOf')).toMatch(
+			/result_sign_\d+_\$f = "huge";\s*break exit_sign_\d+_\$f;/
+		);
+
+		// Returns of nested functions are left alone
+		expect(getFunctionBody('doubledTotal')).toMatch(/=> \{\s*return value_\d+_\$f \* 2;\s*\}\);/);
+	});
+
+	it('should bind defaults, destructuring, rest parameters and spread arguments', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/parameter-shapes.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// A default only runs when the argument is undefined
+		expect(getFunctionBody('useDefault')).toMatch(/const step_\d+_\$f = nextId\(\);/);
+		expect(getFunctionBody('useGivenStep')).toMatch(
+			/const (step_arg_\d+_\$f) = step;\s*const step_\d+_\$f = \1 === void 0 \? nextId\(\) : \1;/
+		);
+		expect(getFunctionBody('useLiteralDefault')).toContain('return [value + 1, value + 5];');
+
+		// Destructured parameters become renamed locals
+		expect(getFunctionBody('usePoint')).toMatch(
+			/const \{\s*x: x_\d+_\$f,\s*y: y_\d+_\$f = 0\s*\} = param0_arg_\d+_\$f;/
+		);
+		expect(getFunctionBody('useFirstTwo')).toMatch(
+			/const \[first_\d+_\$f, second_\d+_\$f\] = param0_arg_\d+_\$f;/
+		);
+
+		// Rest parameters collect the remaining arguments
+		expect(getFunctionBody('useRest')).toMatch(/const rest_arg_\d+_\$f = \[2, nextId\(\)\];/);
+
+		// Spread arguments are destructured like a call would bind them
+		expect(getFunctionBody('useSpread')).toMatch(
+			/const (args_arg_\d+_\$f) = \[\.\.\.values\];\s*const \[base_\d+_\$f, \.\.\.rest_\d+_\$f\] = \1;/
+		);
+		expect(getFunctionBody('useSpreadTail')).toMatch(
+			/const \[step_\d+_\$f = nextId\(\)\] = args_arg_\d+_\$f;/
+		);
+
+		// Defaults that depend on other parameters are bound anew for every call. The second
+		// call runs after the first, so it is bound where it runs.
+		const clampBody = getFunctionBody('useClampTwice');
+		expect(clampBody).toMatch(/const hi_\d+_\$f = 1 \+ 10;/);
+		expect(clampBody).toMatch(/\(hi_\d+_\$f = 0 \+ 10, /);
+
+		// Shorthand properties keep their names when their values are renamed or substituted
+		expect(getFunctionBody('useDescribe')).toMatch(/label: label_\d+_\$f = name/);
+		expect(getFunctionBody('useDescribe')).toMatch(/name,\s*label: label_\d+_\$f/);
+	});
+
+	it('should bind this, arguments and new.target to the inlined call', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/call-context.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n {0,2}\\}`)
+			)![1];
+
+		// `arguments` is an array of the evaluated arguments, which the parameters bind from
+		const countBody = getFunctionBody('function useCountArgs');
+		expect(countBody).toMatch(
+			/const (arguments_arg_\d+_\$f) = \[1, \.\.\.values\];\s*const \[first_\d+_\$f, \.\.\.rest_\d+_\$f\] = \1;\s*return \1\.length/
+		);
+
+		// A plain call has no receiver and is not a construction
+		const describeBody = getFunctionBody('function useDescribeCall');
+		expect(describeBody).toContain('void 0 ? "constructed" : "called"');
+		expect(describeBody).toContain('"undefined"');
+
+		// Arrow functions share the inlined call's context, other functions keep their own
+		const deferBody = getFunctionBody('function useDeferArgs');
+		expect(deferBody).toMatch(/\(\) => arguments_arg_\d+_\$f\[0\]/);
+		expect(deferBody).toMatch(/function\(\) \{\s*return \[this, arguments\.length\];/);
+
+		// The caller's own `this` is only used where the caller passes it
+		expect(getFunctionBody('grow')).toMatch(/const arguments_arg_\d+_\$f = \[this\.size\];/);
+	});
+
+	it('should only inline async functions where their call is awaited, and never generators', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/async-functions.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(new RegExp(`${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`))![1];
+
+		// The body runs in the async caller, and the await still waits for what it returns
+		const loadBody = getFunctionBody('function useLoadId');
+		expect(loadBody).toMatch(/const (data_\d+_\$f) = await fetchJson\(url\);/);
+		expect(loadBody).toMatch(/const id = await result_loadId_\d+_\$f;/);
+		expect(getFunctionBody('function useFetchRaw')).toContain(
+			'return (await fetchJson(url)).id;'
+		);
+
+		// Calls whose promise is used as a value stay calls
+		expect(getFunctionBody('function useLoadIdLater')).toContain('const pending = loadId(url);');
+		expect(getFunctionBody('function useLoadIdSync')).toContain('loadId(url).then(');
+
+		// Generators only run as their iterator is consumed
+		expect(getFunctionBody('function useRange')).toContain('return [...range(3)];');
+	});
+
+	it('should rename every binding of the inlined body and substitute only free params', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/hygiene.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// Nested function declarations and their params do not capture the caller's names.
+		// Params read in a nested function are bound once, as it may run after the call.
+		const applyTwiceBody = getFunctionBody('useApplyTwice');
+		expect(applyTwiceBody).toMatch(
+			/const (offset_arg_\d+_\$f) = step;\s*function (step_\d+_\$f)\((input_\d+_\$f)\) \{\s*return \3 \+ \1;\s*\}\s*return \2\(\2\(input\)\);/
+		);
+
+		// An arrow param that shadows a param is not substituted
+		const scaleAllBody = getFunctionBody('useScaleAll');
+		expect(scaleAllBody).toMatch(/\((factor_\d+_\$f)\) => \1 \* 2/);
+		expect(scaleAllBody).toMatch(
+			/const (factor_arg_\d+_\$f) = value;[\s\S]*\((value_\d+_\$f)\) => \2 \* \1\)/
+		);
+
+		// Catch clause params are renamed
+		expect(getFunctionBody('useSafeParse')).toMatch(
+			/JSON\.parse\(error\);[\s\S]*catch \((error_\d+_\$f)\) \{\s*result_safeParse_\d+_\$f = String\(\1\);/
+		);
+
+		// Class declarations and destructured declarations are renamed, property names are not
+		const makeCounterBody = getFunctionBody('useMakeCounter');
+		expect(makeCounterBody).toMatch(/class (Counter_\d+_\$f) \{\s*count = start_arg_\d+_\$f;/);
+		expect(makeCounterBody).toMatch(
+			/const \{\s*count: count_\d+_\$f\s*\} = new Counter_\d+_\$f\(\);/
+		);
+	});
 });
@@ -0,0 +1,203 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RollupLog, rollup } from 'rollup';
+import { describe, expect, it } from 'vitest';
+import { InlineDiagnostic } from '../src/index';
+import inlineFunctions from '../src/rollup';
+import { buildFilesEsbuild } from './utils/build-esbuild';
+
+describe('diagnostics', () => {
+	it('should report calls that were not inlined with their location and a code frame', async () => {
+		const entryPoint = path.resolve(__dirname, 'fixtures/diagnostics/consumer.ts');
+		const reported: InlineDiagnostic[] = [];
+		const result = await buildFilesEsbuild(entryPoint, {
+			diagnostics: (diagnostic) => reported.push(diagnostic),
+		});
+
+		const diagnostics = reported.filter((diagnostic) => diagnostic.file === entryPoint);
+		expect(diagnostics.map(({ code, line, column }) => ({ code, line, column }))).toEqual([
+			{ code: 'async', line: 4, column: 18 },
+			{ code: 'unsupported-callee', line: 9, column: 9 },
+			{ code: 'unresolved-callee', line: 13, column: 9 },
+			{ code: 'unresolved-annotated-call', line: 17, column: 28 },
+			{ code: 'unresolved-annotated-call', line: 18, column: 29 },
+		]);
+		expect(diagnostics[3].message).toBe(
+			'ops.add() was not inlined: annotated call site could not be resolved to a function'
+		);
+		expect(diagnostics[4].callee).toBe('Math.max');
+
+		const [notAwaited] = diagnostics;
+		expect(notAwaited.callee).toBe('loadCount');
+		expect(notAwaited.message).toBe(
+			'loadCount() was not inlined: it is async, and only calls that are directly awaited in an async function are inlined'
+		);
+		expect(notAwaited.frame).toContain('> 4 | \tconst pending = loadCount();');
+		expect(notAwaited.frame).toContain('    | \t                ^');
+
+		// Calls that only share the name of an @inline function are not bundler warnings
+		const warnings = result.warnings.filter(
+			(warning) => warning.location?.file === 'test/fixtures/diagnostics/consumer.ts'
+		);
+		expect(warnings.map((warning) => warning.location!.line)).toEqual([4, 9, 17, 18]);
+		expect(warnings[0].text).toContain('only calls that are directly awaited');
+	});
+
+	it('should warn about files that fail to parse', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'diagnostics-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'broken.js'),
+			'export function broken( {\n\treturn 1;\n}\n'
+		);
+		fs.writeFileSync(path.join(srcDir, 'index.js'), 'export const value = 1;\n');
+
+		const warnings: RollupLog[] = [];
+		const reported: InlineDiagnostic[] = [];
+		try {
+			const bundle = await rollup({
+				input: path.join(srcDir, 'index.js'),
+				plugins: [
+					inlineFunctions({
+						include: ['src/**/*.js'],
+						cwd: tempProjectDir,
+						diagnostics: (diagnostic) => reported.push(diagnostic),
+					}),
+				],
+				onwarn: (warning) => warnings.push(warning),
+			});
+			await bundle.close();
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+
+		expect(reported).toHaveLength(1);
+		expect(reported[0]).toMatchObject({ code: 'parse-error', line: 2 });
+		expect(reported[0].message).toContain('Failed to parse src/broken.js');
+		expect(reported[0].file).toMatch(/src[\\/]broken\.js$/);
+
+		const warning = warnings.find((warning) => warning.pluginCode === 'parse-error');
+		expect(warning?.loc?.line).toBe(2);
+	});
+
+	it('should fail strict builds, unless the severity of a code is configured', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'strict-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'counter.js'),
+			`let count = 0;
+
+export /* @inline */ async function load() {
+	return count;
+}
+
+export /* @inline @pure */ function next() {
+	return ++count;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { load, next } from './counter';
+
+export function run() {
+	next();
+	return load();
+}
+`
+		);
+
+		const build = async (options: Parameters<typeof inlineFunctions>[0]) => {
+			const warnings: RollupLog[] = [];
+			const bundle = await rollup({
+				input: path.join(srcDir, 'index.js'),
+				plugins: [
+					inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir, ...options }),
+				],
+				onwarn: (warning) => warnings.push(warning),
+			});
+			await bundle.close();
+			return warnings;
+		};
+
+		try {
+			const warnings = await build({});
+			expect(warnings.map((warning) => warning.pluginCode)).toEqual([
+				'purity-conflict',
+				'module-state',
+				'async',
+			]);
+			expect(warnings[0].message).toContain(
+				'next is marked @pure, but it assigns to the module-level "count".'
+			);
+
+			await expect(build({ strict: true })).rejects.toMatchObject({
+				pluginCode: 'purity-conflict',
+				loc: { line: 7 },
+			});
+
+			const configured = await build({
+				strict: true,
+				severity: { 'purity-conflict': 'off', 'module-state': 'off', async: 'warn' },
+			});
+			expect(configured.map((warning) => warning.pluginCode)).toEqual(['async']);
+			expect(configured[0].loc).toMatchObject({ line: 5, column: 8 });
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+
+	it('should fail strict builds on annotated calls that do not resolve to a function', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'strict-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`export function largest(values) {
+	return /* @inline */ Math.max(...values);
+}
+`
+		);
+
+		const build = async (options: Parameters<typeof inlineFunctions>[0]) => {
+			const bundle = await rollup({
+				input: path.join(srcDir, 'index.js'),
+				plugins: [
+					inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir, ...options }),
+				],
+				onwarn: () => {},
+			});
+			await bundle.close();
+		};
+
+		try {
+			await expect(build({ strict: true })).rejects.toMatchObject({
+				pluginCode: 'unresolved-annotated-call',
+				loc: { line: 2 },
+			});
+			await expect(
+				build({ strict: true, severity: { 'unresolved-annotated-call': 'off' } })
+			).resolves.toBeUndefined();
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+});
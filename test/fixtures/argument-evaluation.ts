@@ -0,0 +1,85 @@
+let counter = 0;
+let total = 0;
+const marks: string[] = [];
+
+export function nextId() {
+	return ++counter;
+}
+
+export /* @inline */ function pair(id: number) {
+	return [id, id];
+}
+
+export /* @inline */ function both(a: number, b: number) {
+	return [a, b];
+}
+
+export /* @inline */ function difference(a: number, b: number) {
+	return b - a;
+}
+
+export /* @inline */ function increment(value: number) {
+	value += 1;
+	return value;
+}
+
+export /* @inline */ function getLater(value: unknown) {
+	return function () {
+		return value;
+	};
+}
+
+export function mark(label: string) {
+	marks.push(label);
+	return label;
+}
+
+export /* @inline */ function logged(value: string) {
+	mark('body');
+	return value;
+}
+
+export /* @inline */ function addToTotal(amount: number) {
+	total += amount;
+	return amount;
+}
+
+export function pairOfNextId() {
+	return pair(nextId());
+}
+
+export function pairOfValue(value: number) {
+	return pair(value);
+}
+
+export function differenceOfNextIds() {
+	return difference(nextId(), nextId() * 10);
+}
+
+export function incrementValue(value: number) {
+	const next = increment(value);
+	return [value, next];
+}
+
+export function bothWithIncrement() {
+	let x = 0;
+	return both(x, x++);
+}
+
+export function bothWithNextId() {
+	let y = 0;
+	const fixed = 5;
+	return [both(y, nextId()), both(fixed, nextId())];
+}
+
+export function laterThis(this: unknown) {
+	return getLater(this);
+}
+
+export function addTotalToItself() {
+	return addToTotal(total);
+}
+
+export function loggedAfterFirst() {
+	return [mark('first'), logged(mark('arg'))];
+}
@@ -0,0 +1,37 @@
+declare function fetchJson(url: string): Promise<{ id: number }>;
+
+export /* @inline */ async function loadId(url: string) {
+	const data = await fetchJson(url);
+	if (!data) return -1;
+	return data.id;
+}
+
+export /* @inline */ async function fetchRaw(url: string) {
+	return fetchJson(url);
+}
+
+export /* @inline */ function* range(end: number) {
+	for (let i = 0; i < end; i++) yield i;
+}
+
+export async function useLoadId(url: string) {
+	const id = await loadId(url);
+	return id + 1;
+}
+
+export async function useFetchRaw(url: string) {
+	return (await fetchRaw(url)).id;
+}
+
+export async function useLoadIdLater(url: string) {
+	const pending = loadId(url);
+	return pending;
+}
+
+export function useLoadIdSync(url: string) {
+	return loadId(url).then((id) => id + 1);
+}
+
+export function useRange() {
+	return [...range(3)];
+}
@@ -0,0 +1,36 @@
+export /* @inline */ function countArgs(first: number, ...rest: number[]) {
+	return arguments.length + first + rest.length;
+}
+
+export /* @inline */ function describeCall(this: unknown, label: string) {
+	const target = new.target ? 'constructed' : 'called';
+	return `${label}: ${typeof this} ${target}`;
+}
+
+export /* @inline */ function deferArgs(value: number) {
+	const read = () => arguments[0] + value;
+	const own = function (this: unknown) {
+		return [this, arguments.length];
+	};
+	return [read(), own()];
+}
+
+export function useCountArgs(values: number[]) {
+	return countArgs(1, ...values);
+}
+
+export function useDescribeCall() {
+	return describeCall('plain');
+}
+
+export function useDeferArgs(value: number) {
+	return deferArgs(value + 1);
+}
+
+export class Widget {
+	size = 1;
+
+	grow() {
+		return countArgs(this.size) + describeCall.length;
+	}
+}
@@ -0,0 +1,11 @@
+import { lookup } from './lib';
+
+const formatValue = (value: number) => value.toFixed(2);
+
+export function describeEntry(id: number) {
+	const cache = new Map<number, string>();
+	cache.set(id, formatValue(id));
+	return lookup(id) + cache.get(id);
+}
+
+export { lookupWithLocalCache } from './lib';
@@ -0,0 +1,3 @@
+export function format(id: number) {
+	return `#${id}`;
+}
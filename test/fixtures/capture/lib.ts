@@ -0,0 +1,12 @@
+import { format as formatValue } from './format';
+
+export const cache = new Map<number, string>();
+
+export /* @inline */ function lookup(id: number) {
+	return cache.get(id) ?? formatValue(id);
+}
+
+export function lookupWithLocalCache(id: number) {
+	const cache = 'local';
+	return lookup(id) + cache;
+}
@@ -0,0 +1,19 @@
+import { loadCount } from './counter';
+
+export async function notAwaited() {
+	const pending = loadCount();
+	return pending;
+}
+
+export function unknownReceiver(counter: { next(): number }) {
+	return counter.next();
+}
+
+export function shadowed(loadCount: () => number) {
+	return loadCount();
+}
+
+export function annotatedUnresolved(ops: { add(a: number, b: number): number }) {
+	const sum = /* @inline */ ops.add(1, 2);
+	return sum + /* @inline */ Math.max(1, 2);
+}
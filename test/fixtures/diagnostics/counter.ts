@@ -0,0 +1,11 @@
+export /* @inline */ async function loadCount() {
+	return 1;
+}
+
+export class Counter {
+	count = 0;
+
+	/* @inline */ next() {
+		return ++this.count;
+	}
+}
@@ -0,0 +1,64 @@
+export /* @inline */ function findEven(values: number[]) {
+	for (const value of values) {
+		if (value % 2 === 0) {
+			return value;
+		}
+	}
+	return -1;
+}
+
+export /* @inline */ function describe(kind: string) {
+	switch (kind) {
+		case 'a':
+			return 'first';
+		case 'b':
+			return 'second';
+	}
+	return 'other';
+}
+
+export /* @inline */ function parseOr(text: string, fallback: number) {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return fallback;
+	} finally {
+		console.log('parsed', text);
+	}
+}
+
+export /* @inline */ function sign(value: number) {
+	if (value > 0) {
+		if (value > 100) return 'huge';
+		console.log('positive');
+	}
+	return value < 0 ? 'negative' : 'small';
+}
+
+export /* @inline */ function doubled(values: number[]) {
+	const result = values.map((value) => {
+		return value * 2;
+	});
+	return result;
+}
+
+export function firstEven(values: number[]) {
+	const even = findEven(values);
+	return even * 10;
+}
+
+export function label(kind: string) {
+	return describe(kind).toUpperCase();
+}
+
+export function parseCount(text: string) {
+	return parseOr(text, 0) + 1;
+}
+
+export function signOf(value: number) {
+	return sign(value);
+}
+
+export function doubledTotal(values: number[]) {
+	return doubled(values).length;
+}
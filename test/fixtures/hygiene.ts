@@ -0,0 +1,42 @@
+export /* @inline */ function applyTwice(value: number, offset: number) {
+	function step(input: number) {
+		return input + offset;
+	}
+	return step(step(value));
+}
+
+export /* @inline */ function scaleAll(values: number[], factor: number) {
+	return values.map((factor) => factor * 2).concat(values.map((value) => value * factor));
+}
+
+export /* @inline */ function safeParse(text: string) {
+	try {
+		return JSON.parse(text);
+	} catch (error) {
+		return String(error);
+	}
+}
+
+export /* @inline */ function makeCounter(start: number) {
+	class Counter {
+		count = start;
+	}
+	const { count } = new Counter();
+	return count;
+}
+
+export function useApplyTwice(step: number, input: number) {
+	return applyTwice(input, step);
+}
+
+export function useScaleAll(values: number[], value: number) {
+	return scaleAll(values, value);
+}
+
+export function useSafeParse(error: string) {
+	return safeParse(error);
+}
+
+export function useMakeCounter(Counter: number, count: number) {
+	return makeCounter(Counter + count);
+}
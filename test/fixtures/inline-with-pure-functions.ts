@@ -8,7 +8,7 @@ export /* @inline @pure */ function addOneToGeneratedNumber(a: number) {
 	return result + a;
 }
 
-export function multiply(a: number, b: number) {
+export /* @pure */ function multiply(a: number, b: number) {
 	return a * b;
 }
 
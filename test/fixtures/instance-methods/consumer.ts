@@ -0,0 +1,32 @@
+import { Entity, Trait } from './entity';
+
+export function countTraits(entity: Entity) {
+	return entity.size;
+}
+
+export function hasTrait(entity: Entity, trait: Trait) {
+	return entity.has(trait);
+}
+
+export function createLabel() {
+	const entity = new Entity();
+	return entity.label('entity');
+}
+
+export function labelFirst(entities: Entity[]) {
+	const entity: Entity = entities[0];
+	return entity.label(String(entities.length));
+}
+
+export function unknownReceiver(entity: { label(prefix: string): string }) {
+	return entity.label('other');
+}
+
+export function firstLabel(entities: Entity[]) {
+	const entity = entities[0];
+	return entity.label('first');
+}
+
+export function readVersion(entity: Entity) {
+	return entity.version;
+}
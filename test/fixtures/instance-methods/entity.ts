@@ -0,0 +1,33 @@
+export type Trait = { id: number };
+
+export class Entity {
+	readonly traits = new Map<number, unknown>();
+	#version = 0;
+
+	/* @inline */ get size() {
+		return this.traits.size;
+	}
+
+	/* @inline */ get version() {
+		return this.#version;
+	}
+
+	/* @inline */ has(trait: Trait) {
+		return this.traits.has(trait.id);
+	}
+
+	/* @inline */ label(prefix: string) {
+		return `${prefix}:${this.constructor.name}`;
+	}
+
+	add(trait: Trait, value: unknown) {
+		if (this.has(trait)) return false;
+		this.#touch(trait.id);
+		this.traits.set(trait.id, value);
+		return this.version;
+	}
+
+	/* @inline */ #touch(id: number) {
+		this.#version += id;
+	}
+}
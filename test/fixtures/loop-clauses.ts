@@ -0,0 +1,73 @@
+const queue: number[] = [];
+
+export /* @inline */ function take() {
+	const next = queue.shift();
+	return next;
+}
+
+export /* @inline */ function sumUntil(limit: number) {
+	let total = 0;
+	for (const value of queue) {
+		if (total + value > limit) break;
+		total += value;
+	}
+	return total;
+}
+
+export /* @inline */ function values() {
+	const copy = [...queue];
+	return copy;
+}
+
+export function drainWhile() {
+	let value;
+	while ((value = take()) !== undefined) {
+		console.log(value);
+	}
+}
+
+export function countWhileBelow(limit: number) {
+	let count = 0;
+	while (sumUntil(limit) < limit) {
+		queue.push(1);
+		count++;
+	}
+	return count;
+}
+
+export function drainFor() {
+	const seen: number[] = [];
+	for (let value = take(); value !== undefined; value = take()) {
+		seen.push(value);
+	}
+	return seen;
+}
+
+export function stepFor(limit: number) {
+	let steps = 0;
+	for (var total = 0; total < limit; total = sumUntil(limit)) {
+		if (steps++ > 10) continue;
+		queue.push(1);
+	}
+	return steps;
+}
+
+export function logValues() {
+	for (const value of values()) {
+		console.log(value);
+	}
+}
+
+export function drainDoWhile() {
+	let value;
+	do {
+		value = take();
+	} while (value !== undefined && take() !== undefined);
+}
+
+export function pushDoWhile(limit: number) {
+	do {
+		if (queue.length % 2) continue;
+		queue.push(1);
+	} while (sumUntil(limit) < limit);
+}
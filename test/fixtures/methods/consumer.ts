@@ -0,0 +1,23 @@
+import * as math from './math';
+import { MathUtils } from './math';
+import { Vector as Vec2 } from './vector';
+
+export function useNamespace(value: number) {
+	return math.square(value + 1);
+}
+
+export function useObject(value: number) {
+	return MathUtils.clamp(value, 0, 10) + MathUtils.lerp(0, 10, value);
+}
+
+export function useReceiver(value: number) {
+	return MathUtils.nearlyZero(value);
+}
+
+export function useStatic() {
+	return Vec2.create(1, 2);
+}
+
+export function useRegularMethod(value: number) {
+	return MathUtils.double(value);
+}
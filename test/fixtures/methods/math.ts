@@ -0,0 +1,23 @@
+const EPSILON = 1e-9;
+
+export const MathUtils = {
+	epsilon: EPSILON,
+
+	/* @inline */ clamp(value: number, min: number, max: number) {
+		return Math.min(Math.max(value, min), max);
+	},
+
+	lerp: /* @inline */ (from: number, to: number, t: number) => from + (to - from) * t,
+
+	/* @inline */ nearlyZero(value: number) {
+		return Math.abs(value) < this.epsilon;
+	},
+
+	double(value: number) {
+		return value * 2;
+	},
+};
+
+export /* @inline */ function square(value: number) {
+	return value * value;
+}
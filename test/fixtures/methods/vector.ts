@@ -0,0 +1,13 @@
+export class Vector {
+	static created = 0;
+
+	constructor(
+		public x: number,
+		public y: number
+	) {}
+
+	/* @inline */ static create(x: number, y: number) {
+		this.created++;
+		return new Vector(x, y);
+	}
+}
@@ -0,0 +1,5 @@
+import { recordHit, remember } from './store';
+
+export function track(key: string) {
+	remember(key, recordHit());
+}
@@ -0,0 +1,18 @@
+const entries = new Map<string, number>();
+const limit = 100;
+let hits = 0;
+
+function normalize(key: string) {
+	return key.trim().toLowerCase();
+}
+
+export { limit as maxEntries };
+
+export /* @inline */ function remember(key: string, value: number) {
+	if (entries.size < limit) entries.set(normalize(key), value);
+}
+
+export /* @inline */ function recordHit() {
+	hits++;
+	return hits;
+}
@@ -0,0 +1,6 @@
+import { getId as getOrderId } from './orders';
+import { getId } from './users';
+
+export function describeOrder(user: { id: string }, order: { orderId: string }) {
+	return `${getId(user)}:${getOrderId(order)}`;
+}
@@ -0,0 +1,3 @@
+export /* @inline */ function getId(order: { orderId: string }) {
+	return order.orderId;
+}
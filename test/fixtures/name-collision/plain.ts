@@ -0,0 +1,3 @@
+export function getId(user: { id: string }) {
+	return `plain:${user.id}`;
+}
@@ -0,0 +1,18 @@
+import { getId } from './users';
+
+/* @inline */ function getLabel(user: { id: string }) {
+	return `user ${user.id}`;
+}
+
+export function withParameter(getId: (user: { id: string }) => string, user: { id: string }) {
+	return getId(user);
+}
+
+export function withLocal(user: { id: string }) {
+	const getLabel = (value: { id: string }) => value.id.toUpperCase();
+	return getLabel(user);
+}
+
+export function withInline(user: { id: string }) {
+	return `${getId(user)} ${getLabel(user)}`;
+}
@@ -0,0 +1,5 @@
+import { getId } from './plain';
+
+export function describeUser(user: { id: string }) {
+	return getId(user);
+}
@@ -0,0 +1,3 @@
+export /* @inline */ function getId(user: { id: string }) {
+	return user.id;
+}
@@ -0,0 +1,7 @@
+// Rarely runs, so calls here stay calls. @noinline
+
+import { square } from './math';
+
+export function coldSquare(n: number) {
+	return square(n);
+}
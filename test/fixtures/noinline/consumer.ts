@@ -0,0 +1,20 @@
+import { coldSquare } from './cold';
+import { square } from './math';
+
+export function hotSquare(n: number) {
+	return square(n);
+}
+
+export function callSites(n: number) {
+	const kept = /* @noinline */ square(n);
+	const alsoKept = /* @inline(false) */ square(n + 1);
+	return kept + alsoKept + square(n + 2);
+}
+
+/* @noinline */ export function debugSquare(n: number) {
+	return square(n);
+}
+
+export const testSquare = /* @inline(false) */ (n: number) => square(n);
+
+export { coldSquare };
@@ -0,0 +1,3 @@
+/* @inline */ export function square(n: number) {
+	return n * n;
+}
@@ -0,0 +1,76 @@
+let counter = 0;
+
+export function nextId() {
+	return ++counter;
+}
+
+export /* @inline */ function withDefault(value: number, step = nextId()) {
+	return value + step;
+}
+
+export /* @inline */ function withLiteralDefault(value: number, step = 1) {
+	return value + step;
+}
+
+export /* @inline */ function pointLength({ x, y = 0 }: { x: number; y?: number }) {
+	return Math.sqrt(x * x + y * y);
+}
+
+export /* @inline */ function firstTwo([first, second]: number[]) {
+	return first + second;
+}
+
+export /* @inline */ function sumAll(base: number, ...rest: number[]) {
+	let total = base;
+	for (const value of rest) total += value;
+	return total;
+}
+
+export /* @inline */ function describe(name: string, options: { label?: string } = {}) {
+	const { label = name } = options;
+	return { name, label };
+}
+
+export /* @inline */ function clamp(value: number, lo = 0, hi = lo + 10) {
+	return Math.min(Math.max(value, lo), hi);
+}
+
+export function useDefault(value: number) {
+	return withDefault(value);
+}
+
+export function useGivenStep(value: number, step: number) {
+	return withDefault(value, step);
+}
+
+export function useLiteralDefault(value: number) {
+	return [withLiteralDefault(value), withLiteralDefault(value, 5)];
+}
+
+export function usePoint(point: { x: number; y?: number }) {
+	return pointLength(point);
+}
+
+export function useFirstTwo(values: number[]) {
+	return firstTwo(values);
+}
+
+export function useRest(values: number[]) {
+	return sumAll(1, 2, nextId());
+}
+
+export function useSpread(values: number[]) {
+	return sumAll(...(values as [number, ...number[]]));
+}
+
+export function useSpreadTail(values: number[]) {
+	return withDefault(0, ...(values as [number?]));
+}
+
+export function useDescribe(name: string) {
+	return describe(name);
+}
+
+export function useClampTwice() {
+	return [clamp(5, 1), clamp(50)];
+}
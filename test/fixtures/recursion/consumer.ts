@@ -0,0 +1,13 @@
+import { addFour, factorial, isEven } from './math';
+
+export function useFactorial(n: number) {
+	return factorial(n);
+}
+
+export function useIsEven(n: number) {
+	return isEven(n);
+}
+
+export function useAddFour(n: number) {
+	return addFour(n);
+}
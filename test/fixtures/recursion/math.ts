@@ -0,0 +1,26 @@
+// Calls itself
+/* @inline */ export function factorial(n: number): number {
+	return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+// Call each other
+/* @inline */ export function isEven(n: number): boolean {
+	return n === 0 ? true : isOdd(n - 1);
+}
+
+/* @inline */ export function isOdd(n: number): boolean {
+	return n === 0 ? false : isEven(n - 1);
+}
+
+// Nest three levels deep without recursion
+/* @inline */ export function addOne(n: number) {
+	return n + 1;
+}
+
+/* @inline */ export function addTwo(n: number) {
+	return addOne(addOne(n));
+}
+
+/* @inline */ export function addFour(n: number) {
+	return addTwo(addTwo(n));
+}
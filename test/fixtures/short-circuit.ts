@@ -0,0 +1,57 @@
+let calls = 0;
+
+export /* @inline */ function track(value: number) {
+	calls++;
+	return value;
+}
+
+export /* @inline */ function clamp(value: number) {
+	if (value < 0) return 0;
+	const limit = 10;
+	if (value > limit) return limit;
+	return value;
+}
+
+export /* @inline */ function double(value: number) {
+	return value * 2;
+}
+
+export function trackIfEnabled(enabled: boolean, value: number) {
+	return enabled && track(value);
+}
+
+export function trackFallback(value: number | undefined) {
+	return value || track(1);
+}
+
+export function trackNullish(value: number | null) {
+	return value ?? track(2);
+}
+
+export function clampIfEnabled(enabled: boolean, value: number) {
+	return enabled ? clamp(value) : value;
+}
+
+export function trackDefault(value = track(3), other = value + 1) {
+	return [value, other];
+}
+
+// A case test only runs when the cases before it did not match
+export function describeClamped(value: number) {
+	switch (value) {
+		case track(0):
+			return 'zero';
+		case clamp(value):
+			return 'in range';
+		default:
+			return 'out of range';
+	}
+}
+
+export const doubleAll = (values: number[]) => values.map((value) => double(value));
+
+export const clampedArrow = (value: number) => clamp(value);
+
+export function getCalls() {
+	return calls;
+}
@@ -1,4 +1,9 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { rollup } from 'rollup';
 import { describe, expect, it } from 'vitest';
+import inlineFunctions from '../src/rollup';
 import { buildFilesEsbuild } from './utils/build-esbuild';
 import { resolve } from 'path';
 
@@ -65,4 +70,112 @@ describe('import path rewriting', () => {
 		// "No matching export in 'inner.ts' for import '$marker'"
 		expect(code).toMatch(/\[\s*\$marker\s*\]/);
 	});
+
+	it('should keep inlined module-level names from being captured by caller bindings', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/capture/consumer.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const code = result.outputFiles[0].text;
+
+		// The inlined body reads the module-level cache and the imported formatter, not the
+		// caller's local map or its own formatValue
+		const moduleCache = code.match(/var (\w+) = \/\* @__PURE__ \*\/ new Map\(\);/)![1];
+		const describeMatch = code.match(/function describeEntry\(id\)\s*\{([\s\S]*?)\n\}/);
+		const localCache = describeMatch![1].match(
+			/const (\w+) = \/\* @__PURE__ \*\/ new Map\(\);/
+		)![1];
+		expect(localCache).not.toBe(moduleCache);
+		expect(describeMatch![1]).toContain(
+			`return (${moduleCache}.get(id) ?? format(id)) + ${localCache}.get(id);`
+		);
+
+		// Inlined into its own module, a shadowing local is renamed instead
+		const localMatch = code.match(/function lookupWithLocalCache\(id\)\s*\{([\s\S]*?)\n\}/);
+		expect(localMatch![1]).toMatch(
+			/const (\w+) = "local";\s*return \(cache\.get\(id\) \?\? format\(id\)\) \+ \1;/
+		);
+		expect(localMatch![1]).not.toContain('const cache =');
+	});
+
+	it('should import module state that the defining module does not export', async () => {
+		// Build failing with "No matching export" would mean the synthetic export is missing
+		const entryPoint = resolve(__dirname, 'fixtures/module-state/consumer.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const code = result.outputFiles[0].text;
+
+		const trackMatch = code.match(/function track\(key\)\s*\{([\s\S]*?)\n\}/);
+		expect(trackMatch![1]).not.toMatch(/remember\s*\(/);
+		expect(trackMatch![1]).toMatch(/entries\.size < limit/);
+		// `key` is read before recordHit() runs, so it is stored first
+		expect(trackMatch![1]).toMatch(
+			/const (key_arg_\d+_\$f) = key;\s*const (value_arg_\d+_\$f) = recordHit\(\);[\s\S]*entries\.set\(normalize\(\1\), \2\)/
+		);
+
+		// Assigning to `hits` through an import is impossible, so recordHit stays a call
+		expect(trackMatch![1]).toMatch(/recordHit\(\)/);
+	});
+
+	it('should import the module state of nested inlined functions, whichever module is transformed first', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'nested-state-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+		const libFile = path.join(srcDir, 'lib.js');
+		const consumerFile = path.join(srcDir, 'consumer.js');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			libFile,
+			`const secret = 41;
+
+export /* @inline */ function inner() {
+	return 1 + secret;
+}
+
+export /* @inline */ function outer() {
+	return inner();
+}
+`
+		);
+		fs.writeFileSync(
+			consumerFile,
+			`import { outer } from './lib';
+
+export function run() {
+	return outer();
+}
+`
+		);
+
+		// The code each module is transformed into, in the order they are transformed
+		const transformed = new Map<string, string>();
+		try {
+			const bundle = await rollup({
+				input: [libFile, consumerFile],
+				plugins: [
+					inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir }),
+					{
+						name: 'capture',
+						transform(code, id) {
+							transformed.set(id, code);
+							return null;
+						},
+					},
+				],
+			});
+			await bundle.close();
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+
+		const [first] = transformed.keys();
+		expect(first).toMatch(/lib\.js$/);
+
+		// Inlining into lib.js does not change the bodies other modules inline
+		const consumerCode = Array.from(transformed).find(([id]) => id.endsWith('consumer.js'))![1];
+		expect(consumerCode).toMatch(/import \{ __inline_secret as secret \} from "\.\/lib(\.js)?";/);
+		expect(consumerCode).toContain('return 1 + secret;');
+		expect(consumerCode).not.toMatch(/\binner\b/);
+	});
 });
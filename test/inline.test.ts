@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { buildFilesEsbuild } from './utils/build-esbuild';
 import { resolve } from 'path';
 
@@ -115,4 +115,145 @@ describe('@inline functionality', () => {
 		// 4. result_2_$f + seed should be inside the multiply call
 		expect(functionBody).toMatch(/multiply\(result_2_\$f\s+\+\s+seed/);
 	});
+
+	it('should inline same-named functions from different files through their import bindings', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/name-collision/consumer.ts');
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		try {
+			const result = await buildFilesEsbuild(entryPoint, { debug: true });
+
+			const transformedCode = result.outputFiles[0].text;
+
+			// Both calls are inlined, including the one through a renamed import
+			expect(transformedCode).not.toContain('getId(');
+			expect(transformedCode).not.toContain('getOrderId(');
+
+			// Each call receives the body of the function it imports
+			expect(transformedCode).toContain('${user.id}:${order.orderId}');
+
+			// And is counted for that function, not for the name they share
+			const messages = log.mock.calls.map(([message]) => String(message));
+			const counted = messages.filter((message) => /getId.*\((.*)\):.*1/.test(message));
+			expect(counted.some((message) => message.includes('name-collision/users.ts'))).toBe(true);
+			expect(counted.some((message) => message.includes('name-collision/orders.ts'))).toBe(
+				true
+			);
+		} finally {
+			log.mockRestore();
+		}
+	});
+
+	it('should inline methods called on namespaces, object literals and classes', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/methods/consumer.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`)
+			)![1];
+
+		// Exports reached through a namespace import
+		expect(getFunctionBody('useNamespace')).toMatch(
+			/return value_arg_\d+_\$f \* value_arg_\d+_\$f;/
+		);
+
+		// Methods and arrow functions of a const object literal
+		expect(getFunctionBody('useObject')).toContain(
+			'return Math.min(Math.max(value, 0), 10) + (0 + (10 - 0) * value);'
+		);
+
+		// `this` is the object or class the method is called on
+		expect(getFunctionBody('useReceiver')).toContain(
+			'return Math.abs(value) < MathUtils.epsilon;'
+		);
+		const staticBody = getFunctionBody('useStatic');
+		expect(staticBody).toMatch(/(\w+)\.created\+\+;\s*return new \1\(1, 2\);/);
+
+		// Methods without @inline stay calls
+		expect(getFunctionBody('useRegularMethod')).toContain('MathUtils.double(value)');
+	});
+
+	it('should inline instance methods and getters when the class of the receiver is known', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/instance-methods/consumer.ts');
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		const getFunctionBody = (name: string) =>
+			transformedCode.match(
+				new RegExp(`${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n {0,2}\\}`)
+			)![1];
+
+		// Receivers annotated with the class, or created with `new`
+		expect(getFunctionBody('function countTraits')).toContain('return entity.traits.size;');
+		expect(getFunctionBody('function hasTrait')).toContain('return entity.traits.has(trait.id);');
+		expect(getFunctionBody('function createLabel')).toContain(
+			'return `${"entity"}:${entity.constructor.name}`;'
+		);
+
+		// The receiver is evaluated before the arguments
+		expect(getFunctionBody('function labelFirst')).toMatch(
+			/const (this_arg_\d+_\$f) = entity;\s*const (prefix_arg_\d+_\$f) = String\(entities\.length\);\s*return `\$\{\2\}:\$\{\1\.constructor\.name\}`;/
+		);
+
+		// Receivers of unknown class stay method calls
+		expect(getFunctionBody('function unknownReceiver')).toContain('entity.label("other")');
+		expect(getFunctionBody('function firstLabel')).toContain('entity.label("first")');
+
+		// Private names only work in their class, where `this` and private methods are inlined
+		expect(getFunctionBody('function readVersion')).toContain('return entity.version;');
+		const addBody = getFunctionBody('add');
+		expect(addBody).toContain('if (this.traits.has(trait.id)) return false;');
+		expect(addBody).toMatch(/this\.#version \+= id_arg_\d+_\$f;/);
+		expect(addBody).toContain('return this.#version;');
+	});
+
+	it('should leave recursive calls as calls and stop at maxInlineDepth', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/recursion/consumer.ts');
+		const getFunctionBody = (code: string, name: string) =>
+			code.match(new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`))![1];
+
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		// Recursive functions are inlined once, keeping their recursive call
+		expect(getFunctionBody(transformedCode, 'useFactorial')).toContain(
+			'return n <= 1 ? 1 : n * factorial(n - 1);'
+		);
+		const isEvenBody = getFunctionBody(transformedCode, 'useIsEven');
+		expect(isEvenBody).toMatch(/\? false : isEven\(n_arg_\d+_\$f - 1\)/);
+		expect(isEvenBody).not.toContain('isOdd(');
+
+		// Their definitions stay callable
+		expect(getFunctionBody(transformedCode, 'factorial')).toContain('factorial(n - 1)');
+
+		// Nested calls are inlined through every level
+		expect(getFunctionBody(transformedCode, 'useAddFour')).not.toMatch(/add(One|Two)\(/);
+
+		const limited = await buildFilesEsbuild(entryPoint, { maxInlineDepth: 2 });
+		const limitedBody = getFunctionBody(limited.outputFiles[0].text, 'useAddFour');
+		expect(limitedBody).not.toContain('addTwo(');
+		expect(limitedBody).toContain('addOne(addOne(n))');
+	});
+
+	it('should keep calls annotated @noinline, and calls in functions and files annotated so', async () => {
+		const entryPoint = resolve(__dirname, 'fixtures/noinline/consumer.ts');
+		const getFunctionBody = (code: string, name: string) =>
+			code.match(new RegExp(`function ${name}\\([^)]*\\)\\s*\\{([\\s\\S]*?)\\n\\}`))![1];
+
+		const result = await buildFilesEsbuild(entryPoint);
+		const transformedCode = result.outputFiles[0].text;
+
+		expect(getFunctionBody(transformedCode, 'hotSquare')).not.toContain('square(');
+
+		const callSitesBody = getFunctionBody(transformedCode, 'callSites');
+		expect(callSitesBody).toContain('square(n)');
+		expect(callSitesBody).toContain('square(n + 1)');
+		expect(callSitesBody).not.toContain('square(n + 2)');
+
+		expect(getFunctionBody(transformedCode, 'debugSquare')).toContain('square(n)');
+		expect(transformedCode).toMatch(/testSquare = [\s\S]*?\(n\) => square\(n\)/);
+		expect(getFunctionBody(transformedCode, 'coldSquare')).toContain('square(n)');
+	});
 });
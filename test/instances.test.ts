@@ -0,0 +1,63 @@
+import * as esbuild from 'esbuild';
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import inlineFunctions from '../src/esbuild';
+
+function createProject(factor: number) {
+	const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'instances-'));
+	const srcDir = path.join(tempProjectDir, 'src');
+
+	fs.mkdirSync(srcDir, { recursive: true });
+	fs.writeFileSync(path.join(tempProjectDir, 'package.json'), JSON.stringify({ private: true }));
+	fs.writeFileSync(
+		path.join(srcDir, 'math.js'),
+		`export /* @inline */ function scale(value) {
+	return value * ${factor};
+}
+`
+	);
+	fs.writeFileSync(
+		path.join(srcDir, 'index.js'),
+		`import { scale } from './math';
+
+export function run(input) {
+	return scale(input);
+}
+`
+	);
+
+	return { tempProjectDir, entryPoint: path.join(srcDir, 'index.js') };
+}
+
+async function build({ tempProjectDir, entryPoint }: ReturnType<typeof createProject>) {
+	const result = await esbuild.build({
+		entryPoints: [entryPoint],
+		bundle: true,
+		write: false,
+		format: 'esm',
+		plugins: [inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir })],
+	});
+
+	return result.outputFiles[0].text;
+}
+
+describe('plugin instances', () => {
+	it('should keep metadata separate between concurrent builds', async () => {
+		const doubled = createProject(2);
+		const tripled = createProject(3);
+
+		try {
+			const [doubledCode, tripledCode] = await Promise.all([build(doubled), build(tripled)]);
+
+			expect(doubledCode).not.toContain('scale(');
+			expect(doubledCode).toContain('input * 2');
+			expect(tripledCode).not.toContain('scale(');
+			expect(tripledCode).toContain('input * 3');
+		} finally {
+			fs.rmSync(doubled.tempProjectDir, { recursive: true, force: true });
+			fs.rmSync(tripled.tempProjectDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,196 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { rollup } from 'rollup';
+import { describe, expect, it } from 'vitest';
+import { InlineReport } from '../src/index';
+import inlineFunctions from '../src/rollup';
+
+describe('report', () => {
+	it('should write what a build inlined and skipped as JSON and HTML', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'report-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'math.js'),
+			`export /* @inline @pure */ function add(a, b) {
+	const sum = a + b;
+	return sum;
+}
+
+export /* @inline */ async function load(value) {
+	return value;
+}
+
+export /* @inline */ function unused() {
+	return 0;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { add, load } from './math';
+
+export function sum(point) {
+	const x = add(point.x, 1);
+	const y = add(point.x, 1);
+	return x + y;
+}
+
+export function pending(value) {
+	return load(value);
+}
+`
+		);
+
+		try {
+			const bundle = await rollup({
+				input: path.join(srcDir, 'index.js'),
+				plugins: [
+					inlineFunctions({
+						include: ['src/**/*.js'],
+						cwd: tempProjectDir,
+						report: { json: 'reports/inline.json', html: 'reports/inline.html' },
+					}),
+				],
+				onwarn: () => {},
+			});
+			await bundle.close();
+
+			const report: InlineReport = JSON.parse(
+				fs.readFileSync(path.join(tempProjectDir, 'reports/inline.json'), 'utf8')
+			);
+
+			expect(report.functions.map(({ name, pure }) => ({ name, pure }))).toEqual([
+				{ name: 'add', pure: true },
+				{ name: 'load', pure: false },
+				{ name: 'unused', pure: false },
+			]);
+			expect(report.functions[0]).toMatchObject({
+				file: 'src/math.js',
+				inline: true,
+				inlinedInto: [
+					{ file: 'src/index.js', line: 4, column: 12, caller: 'sum', callerIsPure: true },
+					{ file: 'src/index.js', line: 5, column: 12, caller: 'sum', callerIsPure: true },
+				],
+			});
+			expect(report.functions[2].inlinedInto).toEqual([]);
+
+			expect(report.transformedFunctions).toEqual([
+				{ file: 'src/index.js', name: 'sum', line: 3, pure: true, deduplicated: 1 },
+			]);
+			expect(report.deduplicated).toBe(1);
+
+			expect(report.skipped).toEqual([
+				expect.objectContaining({
+					code: 'async',
+					callee: 'load',
+					file: 'src/index.js',
+					line: 10,
+					column: 9,
+				}),
+			]);
+
+			const html = fs.readFileSync(path.join(tempProjectDir, 'reports/inline.html'), 'utf8');
+			expect(html).toContain('<td>src/index.js:10:9</td>');
+			expect(html).toContain('1 declarations deduplicated');
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+
+	it('should leave calls beyond a budget as calls and report which budget kicked in', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'report-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'math.js'),
+			`export /* @inline */ function double(value) {
+	return value * 2;
+}
+
+export /* @inline */ function norm(x, y, z) {
+	const squared = x * x + y * y + z * z;
+	return Math.sqrt(squared);
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { double, norm } from './math';
+
+export function run(a, b) {
+	return double(a) + double(b) + norm(a, b, 0);
+}
+`
+		);
+
+		const build = async (options: Record<string, number>) => {
+			const bundle = await rollup({
+				input: path.join(srcDir, 'index.js'),
+				plugins: [
+					inlineFunctions({
+						include: ['src/**/*.js'],
+						cwd: tempProjectDir,
+						report: 'inline.json',
+						...options,
+					}),
+				],
+				onwarn: () => {},
+			});
+			const { output } = await bundle.generate({ format: 'es' });
+			await bundle.close();
+
+			const report: InlineReport = JSON.parse(
+				fs.readFileSync(path.join(tempProjectDir, 'inline.json'), 'utf8')
+			);
+			return { code: output[0].code, report };
+		};
+
+		try {
+			const unlimited = await build({});
+			const [double, norm] = unlimited.report.functions;
+			expect(double.size.nodes).toBeLessThan(norm.size.nodes);
+			expect(double.size.bytes).toBe('{return value*2;}'.length);
+			expect(unlimited.report.skipped).toEqual([]);
+			expect(unlimited.report.growthBytes).toBe(
+				[...double.inlinedInto, ...norm.inlinedInto].reduce(
+					(sum, site) => sum + site.growthBytes,
+					0
+				)
+			);
+
+			const expansions = await build({ maxExpansionsPerFunction: 1 });
+			expect(expansions.code).toContain('double(b)');
+			// The call that is left keeps its import
+			expect(expansions.code).toContain('function double(');
+			expect(expansions.report.skipped).toEqual([
+				expect.objectContaining({ code: 'max-expansions-per-function', callee: 'double' }),
+			]);
+
+			const bodySize = await build({ maxBodySize: double.size.nodes });
+			expect(bodySize.code).toContain('norm(a, b, 0)');
+			expect(bodySize.code).not.toContain('double(');
+			expect(bodySize.report.skipped).toEqual([
+				expect.objectContaining({ code: 'max-body-size', callee: 'norm' }),
+			]);
+
+			const growth = await build({ maxGrowthBytes: 0 });
+			expect(growth.code).toContain('norm(a, b, 0)');
+			expect(growth.report.skipped.map(({ code }) => code)).toContain('max-growth-bytes');
+			expect(growth.report.growthBytes).toBeLessThanOrEqual(0);
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+});
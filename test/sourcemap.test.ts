@@ -0,0 +1,121 @@
+import remapping, { SourceMapInput, SourceMapSegment } from '@jridgewell/remapping';
+import * as esbuild from 'esbuild';
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { rollup } from 'rollup';
+import { describe, expect, it } from 'vitest';
+import inlineFunctionsEsbuild from '../src/esbuild';
+import inlineFunctions from '../src/rollup';
+
+function createProject() {
+	const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'sourcemaps-'));
+	const srcDir = path.join(tempProjectDir, 'src');
+
+	fs.mkdirSync(srcDir, { recursive: true });
+	fs.writeFileSync(path.join(tempProjectDir, 'package.json'), JSON.stringify({ private: true }));
+	fs.writeFileSync(
+		path.join(srcDir, 'math.js'),
+		`export /* @inline */ function scale(value) {
+	const scaled = value * 2;
+	if (scaled > 10) console.log('large', scaled);
+	return scaled;
+}
+`
+	);
+	fs.writeFileSync(
+		path.join(srcDir, 'index.js'),
+		`import { scale } from './math';
+
+export function run(input) {
+	const result = scale(input);
+	return result + 1;
+}
+`
+	);
+
+	return { tempProjectDir, entryPoint: path.join(srcDir, 'index.js') };
+}
+
+// Return the 1-based original lines in `sourceSuffix` that a generated line maps to.
+function getMappedLines(code: string, map: SourceMapInput, lineText: string, sourceSuffix: string) {
+	const decoded = remapping(map, () => null, { decodedMappings: true });
+	const sourceIndex = decoded.sources.findIndex((source) => source?.endsWith(sourceSuffix));
+	const generatedLine = code.split('\n').findIndex((line) => line.includes(lineText));
+	const segments = (decoded.mappings[generatedLine] ?? []) as SourceMapSegment[];
+
+	return segments
+		.filter((segment) => segment.length >= 4 && segment[1] === sourceIndex)
+		.map((segment) => segment[2]! + 1);
+}
+
+function getInlineSourceMap(code: string) {
+	const [, encoded] = code.match(/sourceMappingURL=data:application\/json;base64,(\S+)/)!;
+	return JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+}
+
+describe('source maps', () => {
+	it('should map inlined statements back to the defining file', async () => {
+		const { tempProjectDir, entryPoint } = createProject();
+
+		try {
+			const result = await esbuild.build({
+				entryPoints: [entryPoint],
+				bundle: true,
+				write: false,
+				format: 'esm',
+				sourcemap: 'inline',
+				plugins: [inlineFunctionsEsbuild({ include: ['src/**/*.js'], cwd: tempProjectDir })],
+			});
+
+			const code = result.outputFiles[0].text;
+			const map = getInlineSourceMap(code);
+			const mathIndex = map.sources.findIndex((source: string) => source.endsWith('math.js'));
+
+			expect(mathIndex).toBeGreaterThanOrEqual(0);
+			expect(map.sourcesContent[mathIndex]).toContain('function scale');
+			expect(getMappedLines(code, map, 'console.log(', 'math.js')).toContain(3);
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+
+	it('should map inlined statements to the call site in rollup', async () => {
+		const { tempProjectDir, entryPoint } = createProject();
+
+		try {
+			const bundle = await rollup({
+				input: entryPoint,
+				plugins: [inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir })],
+			});
+			const { output } = await bundle.generate({ format: 'esm', sourcemap: true });
+			await bundle.close();
+
+			const { code, map } = output[0];
+			expect(map).toBeTruthy();
+			expect(getMappedLines(code, map as SourceMapInput, 'console.log(', 'index.js')).toContain(
+				4
+			);
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+
+	it('should not emit a source map when the bundler has them disabled', async () => {
+		const { tempProjectDir, entryPoint } = createProject();
+
+		try {
+			const result = await esbuild.build({
+				entryPoints: [entryPoint],
+				bundle: true,
+				write: false,
+				format: 'esm',
+				plugins: [inlineFunctionsEsbuild({ include: ['src/**/*.js'], cwd: tempProjectDir })],
+			});
+
+			expect(result.outputFiles[0].text).not.toContain('sourceMappingURL');
+		} finally {
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -1,8 +1,9 @@
 import * as esbuild from 'esbuild';
 import unplugin from '../../src/esbuild';
+import { InlineFunctionsOptions } from '../../src/index';
 import path from 'path';
 
-export async function buildFilesEsbuild(entryPoint: string) {
+export async function buildFilesEsbuild(entryPoint: string, options: InlineFunctionsOptions = {}) {
 	return await esbuild.build({
 		entryPoints: [entryPoint],
 		bundle: true,
@@ -12,6 +13,7 @@ export async function buildFilesEsbuild(entryPoint: string) {
 			unplugin({
 				include: ['test/fixtures/**/*.{js,ts}'],
 				cwd: path.resolve(__dirname, '../..'),
+				...options,
 			}),
 		],
 		// Ensure relative imports work
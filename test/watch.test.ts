@@ -0,0 +1,160 @@
+import fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RollupBuild, RollupWatcher, RollupWatcherEvent, watch } from 'rollup';
+import { describe, expect, it, vi } from 'vitest';
+import inlineFunctions from '../src/rollup';
+
+function waitForBundle(watcher: RollupWatcher) {
+	return new Promise<RollupBuild>((resolve, reject) => {
+		const onEvent = (event: RollupWatcherEvent) => {
+			if (event.code === 'BUNDLE_END') {
+				watcher.off('event', onEvent);
+				resolve(event.result);
+			} else if (event.code === 'ERROR') {
+				watcher.off('event', onEvent);
+				reject(event.error);
+			}
+		};
+		watcher.on('event', onEvent);
+	});
+}
+
+async function generateCode(bundle: RollupBuild) {
+	const { output } = await bundle.generate({ format: 'esm' });
+	await bundle.close();
+	return output[0].code;
+}
+
+describe('watch mode', () => {
+	it('should re-inline dependent modules when an @inline function changes', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'watch-mode-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+		const mathFile = path.join(srcDir, 'math.js');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			mathFile,
+			`export /* @inline */ function scale(value) {
+	return value * 2;
+}
+`
+		);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { scale } from './math';
+
+export function run(input) {
+	return scale(input);
+}
+`
+		);
+
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+		const watcher = watch({
+			input: path.join(srcDir, 'index.js'),
+			plugins: [
+				inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir, debug: true }),
+			],
+			output: { format: 'esm' },
+			watch: { skipWrite: true, buildDelay: 50 },
+		});
+		// The inlined count of scale that each build logs
+		const getLoggedCounts = () =>
+			log.mock.calls
+				.map(([message]) => String(message).match(/scale.*: .*?(\d+)/)?.[1])
+				.filter((count) => count !== undefined);
+
+		try {
+			const initialCode = await generateCode(await waitForBundle(watcher));
+
+			expect(initialCode).toContain('input * 2');
+			expect(getLoggedCounts()).toEqual(['1']);
+
+			const nextBundle = waitForBundle(watcher);
+			// Give the file watcher time to become ready before editing.
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			fs.writeFileSync(
+				mathFile,
+				`export /* @inline */ function scale(value) {
+	return value * 3;
+}
+`
+			);
+
+			const updatedCode = await generateCode(await nextBundle);
+			expect(updatedCode).not.toContain('scale(');
+			expect(updatedCode).toContain('input * 3');
+			// Each build counts its own inlined calls
+			expect(getLoggedCounts()).toEqual(['1', '1']);
+		} finally {
+			log.mockRestore();
+			await watcher.close();
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	}, 20000);
+
+	it('should re-inline importing modules when a function becomes @inline', async () => {
+		const tempProjectDir = fs.mkdtempSync(path.join(tmpdir(), 'watch-mode-'));
+		const srcDir = path.join(tempProjectDir, 'src');
+		const mathFile = path.join(srcDir, 'math.js');
+
+		fs.mkdirSync(srcDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(tempProjectDir, 'package.json'),
+			JSON.stringify({ private: true })
+		);
+		fs.writeFileSync(
+			mathFile,
+			`export function scale(value) {
+	return value * 2;
+}
+`
+		);
+		// Imported through a barrel, which does not change itself
+		fs.writeFileSync(path.join(srcDir, 'utils.js'), `export * from './math';\n`);
+		fs.writeFileSync(
+			path.join(srcDir, 'index.js'),
+			`import { scale } from './utils';
+
+export function run(input) {
+	return scale(input);
+}
+`
+		);
+
+		const watcher = watch({
+			input: path.join(srcDir, 'index.js'),
+			plugins: [inlineFunctions({ include: ['src/**/*.js'], cwd: tempProjectDir })],
+			output: { format: 'esm' },
+			watch: { skipWrite: true, buildDelay: 50 },
+		});
+
+		try {
+			const initialCode = await generateCode(await waitForBundle(watcher));
+
+			expect(initialCode).toContain('return scale(input);');
+
+			const nextBundle = waitForBundle(watcher);
+			// Give the file watcher time to become ready before editing.
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			fs.writeFileSync(
+				mathFile,
+				`export /* @inline */ function scale(value) {
+	return value * 2;
+}
+`
+			);
+
+			const updatedCode = await generateCode(await nextBundle);
+			expect(updatedCode).toMatch(/function run\(input\) \{\s*return input \* 2;/);
+		} finally {
+			await watcher.close();
+			fs.rmSync(tempProjectDir, { recursive: true, force: true });
+		}
+	}, 20000);
+});
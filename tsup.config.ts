@@ -23,6 +23,7 @@ export default defineConfig({
 		'@babel/types',
 		'unplugin',
 		'fast-glob',
+		'@jridgewell/remapping',
 	],
 	dts: true,
 	clean: true,